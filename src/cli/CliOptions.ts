@@ -0,0 +1,87 @@
+'use strict';
+
+export type OutputFormat = 'text' | 'json' | 'sarif';
+
+export interface CliOptions {
+	root: string;
+	config: string;
+	format: OutputFormat;
+	languages: string[];
+	suggestions: boolean;
+	patterns: string[];
+	help: boolean;
+}
+
+export const USAGE = [
+	'Usage: spellchecker [options] [files or globs...]',
+	'',
+	'Checks the spelling of files using the spellchecker.* settings of the',
+	'workspace. Without files or globs, every file of a type in',
+	'spellchecker.documentTypes is checked.',
+	'',
+	'Options:',
+	'  --root <folder>       workspace folder (default: the current folder)',
+	'  --config <file>       JSON file with settings, read after .vscode/settings.json',
+	'  --format <format>     text, json or sarif (default: text)',
+	'  --language <names>    comma separated languages, e.g. en_US,es_ANY',
+	'  --no-suggestions      don\'t look up suggestions, which is faster',
+	'  -h, --help            show this help',
+	'',
+	'Exits with 1 if spelling errors were found and 2 if the check failed.'
+].join('\n');
+
+// Parse the command line arguments, without the node executable and script.
+// Throws on invalid arguments.
+export function parseArgs(args: string[]): CliOptions {
+	let options: CliOptions = {
+		root: '',
+		config: '',
+		format: 'text',
+		languages: [],
+		suggestions: true,
+		patterns: [],
+		help: false
+	};
+
+	let value = (i: number): string => {
+		if (i + 1 >= args.length) {
+			throw new Error('Missing value for ' + args[i]);
+		}
+		return args[i + 1];
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		switch (args[i]) {
+			case '--root':
+				options.root = value(i++);
+				break;
+			case '--config':
+				options.config = value(i++);
+				break;
+			case '--format':
+				let format = value(i++);
+				if (format != 'text' && format != 'json' && format != 'sarif') {
+					throw new Error('Unknown format \'' + format + '\'');
+				}
+				options.format = format;
+				break;
+			case '--language':
+				options.languages = value(i++).split(',').map(language => language.trim()).filter(language => language.length > 0);
+				break;
+			case '--no-suggestions':
+				options.suggestions = false;
+				break;
+			case '-h':
+			case '--help':
+				options.help = true;
+				break;
+			default:
+				if (args[i][0] == '-') {
+					throw new Error('Unknown option ' + args[i]);
+				}
+				options.patterns.push(args[i]);
+		}
+	}
+
+	return options;
+}
@@ -0,0 +1,83 @@
+'use strict';
+
+// A spelling error found by the command line, with 1-based line and column
+export interface FileError {
+	file: string;
+	line: number;
+	column: number;
+	word: string;
+	suggestions: string[];
+}
+
+// One error per line: 'file:line:col word (suggestion, ...)'
+export function formatText(errors: FileError[]): string {
+	return errors.map(error => {
+		let line = error.file + ':' + String(error.line) + ':' + String(error.column) + ' ' + error.word;
+		if (error.suggestions.length > 0) {
+			line += ' (' + error.suggestions.join(', ') + ')';
+		}
+		return line + '\n';
+	}).join('');
+}
+
+export function formatJSON(errors: FileError[]): string {
+	return JSON.stringify(errors, null, 4) + '\n';
+}
+
+// SARIF 2.1.0, as read by code scanning tools
+export function formatSARIF(errors: FileError[], severity: string, version: string): string {
+	let levels = {
+		Error: 'error',
+		Warning: 'warning',
+		Information: 'note',
+		Hint: 'note'
+	};
+
+	let sarif = {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: 'spellchecker',
+						version: version,
+						informationUri: 'https://github.com/swyphcosmo/vscode-spellchecker',
+						rules: [
+							{
+								id: 'unknown-word',
+								shortDescription: { text: 'Unknown word' }
+							}
+						]
+					}
+				},
+				results: errors.map(error => {
+					let message = 'Spelling [ ' + error.word + ' ]: unknown word';
+					if (error.suggestions.length > 0) {
+						message += '. Suggestions: ' + error.suggestions.join(', ');
+					}
+
+					return {
+						ruleId: 'unknown-word',
+						level: levels[severity] || 'warning',
+						message: { text: message },
+						locations: [
+							{
+								physicalLocation: {
+									artifactLocation: { uri: error.file.split('\\').join('/') },
+									region: {
+										startLine: error.line,
+										startColumn: error.column,
+										endColumn: error.column + error.word.length
+									}
+								}
+							}
+						]
+					};
+				})
+			}
+		]
+	};
+
+	return JSON.stringify(sarif, null, 4) + '\n';
+}
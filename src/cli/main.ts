@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+'use strict';
+
+import * as path from 'path';
+import * as fs from 'fs';
+import SpellChecker from '../core/SpellChecker';
+import FileFilter, { globToRegExp } from '../core/FileFilter';
+import ProjectDictionary from '../core/ProjectDictionary';
+import { SpellSettings, getDefaultSettings, applySettings, readSettingsFile, getLanguages, getSeverityName, resolvePath } from '../core/Settings';
+import { DictionaryInfo, getBundledDictionaries, getDictionaryForFile, findDictionaries } from '../core/DictionaryDiscovery';
+import { resolveDocumentLanguage } from '../core/LanguageResolver';
+import { getLanguageId } from '../core/FileTypes';
+import { CliOptions, USAGE, parseArgs } from './CliOptions';
+import { FileError, formatText, formatJSON, formatSARIF } from './formatters';
+
+// out/src/cli/main.js is three folders below the extension
+const EXTENSION_ROOT = path.join(__dirname, '..', '..', '..');
+
+// Folders that never contain files worth checking
+const SKIPPED_FOLDERS = ['.git', 'node_modules'];
+
+// The workspace's settings, then the --config file, then the command line
+function loadSettings(root: string, options: CliOptions): SpellSettings {
+	let settings = getDefaultSettings();
+
+	let workspaceSettings = path.join(root, '.vscode', 'settings.json');
+	if (fs.existsSync(workspaceSettings)) {
+		applySettings(settings, readSettingsFile(workspaceSettings));
+	}
+
+	if (options.config) {
+		applySettings(settings, readSettingsFile(path.resolve(options.config)));
+	}
+
+	if (options.languages.length > 0) {
+		settings.language = options.languages;
+	}
+
+	return settings;
+}
+
+// Every file below `folder`, without following symbolic links
+function walk(folder: string, files: string[]): string[] {
+	for (let name of fs.readdirSync(folder)) {
+		let fileName = path.join(folder, name);
+		let stats = fs.lstatSync(fileName);
+
+		if (stats.isDirectory()) {
+			if (SKIPPED_FOLDERS.indexOf(name) < 0) {
+				walk(fileName, files);
+			}
+		}
+		else if (stats.isFile()) {
+			files.push(fileName);
+		}
+	}
+
+	return files;
+}
+
+// Files named on the command line are always checked. Globs, or every file if
+// there are none, are limited by the settings.
+function selectFiles(root: string, all: string[], patterns: string[], settings: SpellSettings): string[] {
+	let filter = new FileFilter(root, settings);
+	let explicit: string[] = [];
+	let globs: string[] = [];
+
+	for (let pattern of patterns) {
+		let fileName = path.resolve(pattern);
+		if (fs.existsSync(fileName) && fs.statSync(fileName).isFile()) {
+			explicit.push(fileName);
+		}
+		else {
+			globs.push(pattern.replace(/^\.\//, ''));
+		}
+	}
+
+	let regexes = globs.map(glob => globToRegExp(glob));
+	let selected = patterns.length > 0 && globs.length == 0 ? [] : all.filter(fileName => {
+		let relative = path.relative(root, fileName).split(path.sep).join('/');
+		let matchesGlob = regexes.length == 0 || regexes.some((regex, i) => regex.test(globs[i].indexOf('/') >= 0 ? relative : path.basename(fileName)));
+
+		return matchesGlob && settings.documentTypes.indexOf(getLanguageId(fileName)) >= 0 && filter.matches(fileName);
+	});
+
+	return explicit.filter(fileName => getLanguageId(fileName) !== null && selected.indexOf(fileName) < 0).concat(selected);
+}
+
+// 1-based line and column of `offset`
+function getPosition(lineStarts: number[], offset: number): { line: number, column: number } {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		let middle = Math.ceil((low + high) / 2);
+		if (lineStarts[middle] <= offset) {
+			low = middle;
+		}
+		else {
+			high = middle - 1;
+		}
+	}
+
+	return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+function getLineStarts(text: string): number[] {
+	let starts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] == '\n') {
+			starts.push(i + 1);
+		}
+	}
+
+	return starts;
+}
+
+function main(args: string[]): Promise<number> {
+	let options: CliOptions;
+	let settings: SpellSettings;
+	let root: string;
+
+	try {
+		options = parseArgs(args);
+		if (options.help) {
+			process.stdout.write(USAGE + '\n');
+			return Promise.resolve(0);
+		}
+
+		root = path.resolve(options.root || '.');
+		settings = loadSettings(root, options);
+	}
+	catch (e) {
+		process.stderr.write(e.message + '\n\n' + USAGE + '\n');
+		return Promise.resolve(2);
+	}
+
+	let checker = new SpellChecker();
+	let failed = false;
+
+	checker.onLanguageFailure = (language, message) => {
+		process.stderr.write(message + '\n');
+		failed = true;
+	};
+
+	for (let pattern of checker.setIgnoreRegExp(settings.ignoreRegExp)) {
+		process.stderr.write('Skipping invalid regular expression in spellchecker.ignoreRegExp: ' + pattern + '\n');
+	}
+
+	let all = walk(root, []);
+	let files = selectFiles(root, all, options.patterns, settings);
+
+	// Dictionaries from the settings, then any in the workspace, then the bundled ones
+	let dictionaries: DictionaryInfo[] = [];
+	for (let folder of settings.dictionaryPaths) {
+		let resolved = resolvePath(folder, root);
+		if (resolved) {
+			dictionaries = dictionaries.concat(findDictionaries(resolved, 'user'));
+		}
+	}
+	dictionaries = dictionaries.concat(all.map(fileName => getDictionaryForFile(fileName, 'workspace')).filter(dictionary => dictionary !== null));
+	checker.setDictionaries(dictionaries.concat(getBundledDictionaries(EXTENSION_ROOT)));
+
+	let projectDictionary = settings.projectDictionary ? new ProjectDictionary(resolvePath(settings.projectDictionary, root)) : null;
+	if (projectDictionary && projectDictionary.loadError) {
+		process.stderr.write(projectDictionary.loadError + '\n');
+	}
+
+	let errors: FileError[] = [];
+
+	let checkFile = (fileName: string): Promise<void> => {
+		let text = fs.readFileSync(fileName, 'utf-8');
+		let resolved = resolveDocumentLanguage(text, checker.getAvailableLanguages());
+		let languages = resolved ? resolved.languages : getLanguages(settings.language);
+		let lineStarts = getLineStarts(text);
+		let file = path.relative(process.cwd(), fileName);
+
+		return checker.check(fileName, text, getLanguageId(fileName), languages).then(result => {
+			if (result === null) {
+				return;
+			}
+
+			// Errors in each file are reported in order, so suggestions are looked up one at a time
+			let next = (i: number): Promise<void> => {
+				if (i >= result.errors.length) {
+					return Promise.resolve();
+				}
+
+				let error = result.errors[i];
+				let position = getPosition(lineStarts, error.offset);
+				let suggestions = options.suggestions ? checker.suggest(error.word, result.languages) : Promise.resolve([]);
+
+				return suggestions.then(found => {
+					errors.push({
+						file: file,
+						line: position.line,
+						column: position.column,
+						word: error.word,
+						suggestions: found.map(suggestion => suggestion.word)
+					});
+					return next(i + 1);
+				});
+			};
+
+			return next(0);
+		});
+	};
+
+	let ignoreWords = settings.ignoreWordsList.concat(projectDictionary ? projectDictionary.getWords() : []);
+
+	return files.reduce((previous, fileName) => previous.then(() => checkFile(fileName)), checker.setIgnoreWords(ignoreWords)).then(() => {
+		let version = JSON.parse(fs.readFileSync(path.join(EXTENSION_ROOT, 'package.json'), 'utf-8')).version;
+
+		if (options.format == 'json') {
+			process.stdout.write(formatJSON(errors));
+		}
+		else if (options.format == 'sarif') {
+			process.stdout.write(formatSARIF(errors, getSeverityName(settings), version));
+		}
+		else {
+			process.stdout.write(formatText(errors));
+			process.stderr.write(String(errors.length) + ' spelling errors in ' + String(files.length) + ' files checked\n');
+		}
+
+		if (failed) {
+			return 2;
+		}
+
+		return errors.length > 0 ? 1 : 0;
+	}).catch(error => {
+		process.stderr.write('Spell check failed: ' + (error instanceof Error ? error.message : String(error)) + '\n');
+		return 2;
+	}).then(code => {
+		checker.dispose();
+		return code;
+	});
+}
+
+main(process.argv.slice(2)).then(code => {
+	process.exitCode = code;
+});
@@ -0,0 +1,131 @@
+'use strict';
+
+// Source of time for the scheduler. Tests can pass a fake clock to control when
+// checks run without waiting on real timers.
+export interface Clock {
+	now(): number;
+	setTimeout(callback: () => void, ms: number): any;
+	clearTimeout(handle: any): void;
+}
+
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+	clearTimeout: (handle: any) => clearTimeout(handle)
+};
+
+// Debounces spell checks separately for every document. Documents whose timers
+// have fired are checked one at a time, visible documents first, so a background
+// document never delays the one being edited.
+export default class CheckScheduler {
+	private timers: Map<string, any> = new Map();
+	private lastRun: Map<string, number> = new Map();
+	private due: string[] = [];
+	private drainHandle: any = null;
+	private running: boolean = false;
+
+	constructor(
+		private run: (key: string) => void | Promise<void>,
+		private isVisible: (key: string) => boolean = () => false,
+		private clock: Clock = systemClock) {
+	}
+
+	// Check `key` now if it hasn't been checked within `interval` milliseconds,
+	// otherwise wait until edits to it have stopped for twice that long
+	public schedule(key: string, interval: number): void {
+		this.clearTimer(key);
+
+		let last = this.lastRun.has(key) ? this.lastRun.get(key) : -1;
+		let delay = (last < 0 || this.clock.now() - last > interval) ? 0 : 2 * interval;
+
+		this.timers.set(key, this.clock.setTimeout(() => {
+			this.timers.delete(key);
+			this.enqueue(key);
+		}, delay));
+	}
+
+	// Forget all pending work for `key`, e.g. when its document is closed
+	public cancel(key: string): void {
+		this.clearTimer(key);
+		this.lastRun.delete(key);
+
+		let index = this.due.indexOf(key);
+		if (index >= 0) {
+			this.due.splice(index, 1);
+		}
+	}
+
+	public isPending(key: string): boolean {
+		return this.timers.has(key) || this.due.indexOf(key) >= 0;
+	}
+
+	public dispose(): void {
+		Array.from(this.timers.keys()).forEach(key => this.clearTimer(key));
+		if (this.drainHandle !== null) {
+			this.clock.clearTimeout(this.drainHandle);
+			this.drainHandle = null;
+		}
+		this.due = [];
+		this.running = false;
+	}
+
+	private clearTimer(key: string): void {
+		if (this.timers.has(key)) {
+			this.clock.clearTimeout(this.timers.get(key));
+			this.timers.delete(key);
+		}
+	}
+
+	private enqueue(key: string): void {
+		if (this.due.indexOf(key) < 0) {
+			this.due.push(key);
+		}
+
+		this.scheduleDrain();
+	}
+
+	private scheduleDrain(): void {
+		if (this.drainHandle === null && !this.running && this.due.length > 0) {
+			this.drainHandle = this.clock.setTimeout(() => this.drain(), 0);
+		}
+	}
+
+	// Run a single due check, then yield before running the next one. Checks that
+	// return a promise are finished before the next one starts.
+	private drain(): void {
+		this.drainHandle = null;
+
+		if (this.due.length == 0) {
+			return;
+		}
+
+		let index = 0;
+		for (let i = 0; i < this.due.length; i++) {
+			if (this.isVisible(this.due[i])) {
+				index = i;
+				break;
+			}
+		}
+
+		let key = this.due.splice(index, 1)[0];
+		this.lastRun.set(key, this.clock.now());
+
+		let result: void | Promise<void>;
+		try {
+			result = this.run(key);
+		}
+		finally {
+			if (result && typeof result.then == 'function') {
+				this.running = true;
+				let done = () => {
+					this.running = false;
+					this.scheduleDrain();
+				};
+				result.then(done, done);
+			}
+			else {
+				this.scheduleDrain();
+			}
+		}
+	}
+}
@@ -0,0 +1,97 @@
+'use strict';
+
+import * as path from 'path';
+import * as fs from 'fs';
+
+export type DictionarySource = 'bundled' | 'user' | 'workspace';
+
+// A hunspell .aff/.dic pair that can be used for checking
+export interface DictionaryInfo {
+	language: string;
+	description: string;
+	aff: string;
+	dic: string;
+	source: DictionarySource;
+}
+
+// Dictionaries that ship with the extension
+const BUNDLED_LANGUAGES = [
+	{
+		description: 'English US',
+		filename: 'en_US'
+	},
+	{
+		description: 'English UK (-ize/Oxford)',
+		filename: 'en_GB-ize'
+	},
+	{
+		description: 'English UK (-ise)',
+		filename: 'en_GB-ise'
+	},
+	{
+		description: 'Spanish',
+		filename: 'es_ANY'
+	},
+	{
+		description: 'French',
+		filename: 'fr'
+	},
+	{
+		description: 'Greek',
+		filename: 'el_GR'
+	},
+	{
+		description: 'Swedish',
+		filename: 'sv_SE'
+	}
+];
+
+export function getBundledDictionaries(extensionRoot: string): DictionaryInfo[] {
+	return BUNDLED_LANGUAGES.map(language => {
+		return {
+			language: language.filename,
+			description: language.description,
+			aff: path.join(extensionRoot, 'languages', language.filename + '.aff'),
+			dic: path.join(extensionRoot, 'languages', language.filename + '.dic'),
+			source: 'bundled' as DictionarySource
+		};
+	});
+}
+
+// The dictionary for a .dic file, if there is a matching .aff file next to it
+export function getDictionaryForFile(dic: string, source: DictionarySource): DictionaryInfo {
+	if (path.extname(dic).toLowerCase() != '.dic') {
+		return null;
+	}
+
+	let language = path.basename(dic, path.extname(dic));
+	let aff = path.join(path.dirname(dic), language + '.aff');
+
+	if (!fs.existsSync(aff)) {
+		return null;
+	}
+
+	return {
+		language: language,
+		description: language,
+		aff: aff,
+		dic: dic,
+		source: source
+	};
+}
+
+// All .aff/.dic pairs directly inside `directory`. Missing or unreadable
+// directories have no dictionaries.
+export function findDictionaries(directory: string, source: DictionarySource): DictionaryInfo[] {
+	let files: string[];
+	try {
+		files = fs.readdirSync(directory);
+	}
+	catch (e) {
+		return [];
+	}
+
+	return files
+		.map(file => getDictionaryForFile(path.join(directory, file), source))
+		.filter(dictionary => dictionary !== null);
+}
@@ -0,0 +1,206 @@
+'use strict';
+
+import * as path from 'path';
+import * as fs from 'fs';
+
+export interface FileFilterOptions {
+	include: string[];
+	exclude: string[];
+	ignoreFileExtensions: string[];
+	ignoreFilenames: string[];
+	useGitignore: boolean;
+}
+
+interface GitignoreRule {
+	regex: RegExp;
+	negate: boolean;
+	directoryOnly: boolean;
+	anchored: boolean;
+	// Folder containing the .gitignore file, relative to the root
+	base: string;
+}
+
+// Convert a glob such as 'docs/**/*.md', 'CHANGELOG*.md' or '*.{md,txt}' into a
+// regular expression matching '/' separated paths
+export function globToRegExp(glob: string): RegExp {
+	let source = '';
+	let inGroup = false;
+
+	for (let i = 0; i < glob.length; i++) {
+		let c = glob[i];
+
+		if (c == '*') {
+			if (glob[i + 1] == '*') {
+				i++;
+				// '**/' matches any number of folders, a trailing '**' anything at all
+				if (glob[i + 1] == '/') {
+					i++;
+					source += '(?:.*/)?';
+				}
+				else {
+					source += '.*';
+				}
+			}
+			else {
+				source += '[^/]*';
+			}
+		}
+		else if (c == '?') {
+			source += '[^/]';
+		}
+		else if (c == '{' && !inGroup) {
+			inGroup = true;
+			source += '(?:';
+		}
+		else if (c == '}' && inGroup) {
+			inGroup = false;
+			source += ')';
+		}
+		else if (c == ',' && inGroup) {
+			source += '|';
+		}
+		else if (c == '[' && glob.indexOf(']', i + 2) > i) {
+			let end = glob.indexOf(']', i + 2);
+			source += '[' + glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+			i = end;
+		}
+		else {
+			source += c.replace(/[.+^$(){}|\[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp('^' + source + '$');
+}
+
+// Decides which files are spell checked. A file is checked if it matches one of the
+// `include` globs (or there are none), matches none of the `exclude` globs, isn't
+// ignored by git and isn't excluded by the older ignoreFileExtensions and
+// ignoreFilenames settings. Globs without a '/' match file names in any folder;
+// the others match paths relative to the root.
+export default class FileFilter {
+	private include: RegExp[];
+	private exclude: RegExp[];
+	private gitignoreRules: Map<string, GitignoreRule[]> = new Map();
+
+	constructor(private root: string, private options: FileFilterOptions) {
+		this.include = options.include.map(glob => globToRegExp(glob));
+		this.exclude = options.exclude.map(glob => globToRegExp(glob));
+	}
+
+	public matches(fileName: string): boolean {
+		if (this.options.ignoreFileExtensions.indexOf(path.extname(fileName)) >= 0) {
+			return false;
+		}
+
+		if (this.options.ignoreFilenames.indexOf(path.basename(fileName)) >= 0) {
+			return false;
+		}
+
+		let relative = this.getRelativePath(fileName);
+		let test = (regex: RegExp, glob: string) => {
+			return glob.indexOf('/') < 0 ? regex.test(path.basename(fileName)) : relative !== null && regex.test(relative);
+		};
+
+		if (this.include.length > 0 && !this.include.some((regex, i) => test(regex, this.options.include[i]))) {
+			return false;
+		}
+
+		if (this.exclude.some((regex, i) => test(regex, this.options.exclude[i]))) {
+			return false;
+		}
+
+		if (this.options.useGitignore && relative !== null && this.isGitignored(relative)) {
+			return false;
+		}
+
+		return true;
+	}
+
+	// Path relative to the root with '/' separators, or null if the file isn't
+	// inside the root
+	private getRelativePath(fileName: string): string {
+		if (!this.root) {
+			return null;
+		}
+
+		let relative = path.relative(this.root, fileName);
+		if (relative.indexOf('..') == 0 || path.isAbsolute(relative)) {
+			return null;
+		}
+
+		return relative.split(path.sep).join('/');
+	}
+
+	// Apply the rules of every .gitignore between the root and the file. Later rules
+	// win, and nothing inside an ignored folder can be included again.
+	private isGitignored(relative: string): boolean {
+		let parts = relative.split('/');
+		let rules: GitignoreRule[] = [];
+
+		for (let i = 0; i < parts.length; i++) {
+			let candidate = parts.slice(0, i + 1).join('/');
+			let isDirectory = i < parts.length - 1;
+
+			rules = rules.concat(this.getGitignoreRules(parts.slice(0, i).join('/')));
+
+			let ignored = false;
+			for (let rule of rules) {
+				if (rule.directoryOnly && !isDirectory) {
+					continue;
+				}
+
+				let local = rule.base ? candidate.substring(rule.base.length + 1) : candidate;
+				if (rule.regex.test(rule.anchored ? local : parts[i])) {
+					ignored = !rule.negate;
+				}
+			}
+
+			if (ignored) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	private getGitignoreRules(folder: string): GitignoreRule[] {
+		if (this.gitignoreRules.has(folder)) {
+			return this.gitignoreRules.get(folder);
+		}
+
+		let rules: GitignoreRule[] = [];
+		let content = '';
+		try {
+			content = fs.readFileSync(path.join(this.root, folder, '.gitignore'), 'utf-8');
+		}
+		catch (e) {
+			// No .gitignore in this folder
+		}
+
+		for (let line of content.split(/\r?\n/)) {
+			line = line.replace(/\s+$/, '');
+			if (line.length == 0 || line[0] == '#') {
+				continue;
+			}
+
+			let negate = line[0] == '!';
+			if (negate) {
+				line = line.substring(1);
+			}
+
+			let directoryOnly = line[line.length - 1] == '/';
+			if (directoryOnly) {
+				line = line.substring(0, line.length - 1);
+			}
+
+			// A slash anywhere but at the end ties the pattern to this folder
+			let anchored = line.indexOf('/') >= 0;
+			line = line.replace(/^\//, '');
+
+			rules.push({ regex: globToRegExp(line), negate: negate, directoryOnly: directoryOnly, anchored: anchored, base: folder });
+		}
+
+		this.gitignoreRules.set(folder, rules);
+		return rules;
+	}
+}
@@ -0,0 +1,84 @@
+'use strict';
+
+import * as path from 'path';
+
+// VS Code languageIds of common file extensions, for checking files outside the editor
+const EXTENSIONS: { [languageId: string]: string[] } = {
+	markdown: ['.md', '.markdown', '.mdown', '.mkd'],
+	latex: ['.tex', '.latex', '.ltx'],
+	plaintext: ['.txt', '.text'],
+	c: ['.c', '.h'],
+	cpp: ['.cpp', '.cc', '.cxx', '.hpp', '.hh'],
+	csharp: ['.cs'],
+	css: ['.css'],
+	dart: ['.dart'],
+	go: ['.go'],
+	haskell: ['.hs'],
+	html: ['.html', '.htm'],
+	java: ['.java'],
+	javascript: ['.js', '.mjs', '.cjs'],
+	javascriptreact: ['.jsx'],
+	kotlin: ['.kt', '.kts'],
+	less: ['.less'],
+	lua: ['.lua'],
+	'objective-c': ['.m'],
+	perl: ['.pl', '.pm'],
+	php: ['.php'],
+	powershell: ['.ps1', '.psm1'],
+	python: ['.py'],
+	r: ['.r'],
+	ruby: ['.rb'],
+	rust: ['.rs'],
+	scala: ['.scala'],
+	scss: ['.scss'],
+	shellscript: ['.sh', '.bash', '.zsh'],
+	sql: ['.sql'],
+	swift: ['.swift'],
+	toml: ['.toml'],
+	typescript: ['.ts'],
+	typescriptreact: ['.tsx'],
+	xml: ['.xml'],
+	yaml: ['.yml', '.yaml']
+};
+
+const FILENAMES: { [languageId: string]: string[] } = {
+	dockerfile: ['Dockerfile'],
+	makefile: ['Makefile', 'makefile', 'GNUmakefile']
+};
+
+// The languageId VS Code would most likely give a file, or null if it's unknown
+export function getLanguageId(fileName: string): string {
+	let basename = path.basename(fileName);
+	let extension = path.extname(fileName).toLowerCase();
+
+	for (let languageId of Object.keys(FILENAMES)) {
+		if (FILENAMES[languageId].indexOf(basename) >= 0) {
+			return languageId;
+		}
+	}
+
+	for (let languageId of Object.keys(EXTENSIONS)) {
+		if (EXTENSIONS[languageId].indexOf(extension) >= 0) {
+			return languageId;
+		}
+	}
+
+	return null;
+}
+
+// A glob matching the files that getLanguageId gives one of `languageIds`, or null
+// if none of them is known
+export function getFilesGlob(languageIds: string[]): string {
+	let patterns: string[] = [];
+
+	for (let languageId of languageIds) {
+		if (EXTENSIONS.hasOwnProperty(languageId)) {
+			patterns = patterns.concat(EXTENSIONS[languageId].map(extension => '**/*' + extension));
+		}
+		if (FILENAMES.hasOwnProperty(languageId)) {
+			patterns = patterns.concat(FILENAMES[languageId].map(filename => '**/' + filename));
+		}
+	}
+
+	return patterns.length > 0 ? '{' + patterns.join(',') + '}' : null;
+}
@@ -0,0 +1,38 @@
+'use strict';
+
+import ProjectDictionary from './ProjectDictionary';
+import { SpellSettings, getDefaultSettings, applySettings } from './Settings';
+import { mergeLegacyValue } from './SettingsMigration';
+
+// Settings of a workspace folder: the defaults overwritten by `values`, the settings
+// that apply to the folder, and the settings of a legacy spellchecker.json in the
+// folder merged in. Legacy keys that aren't settings are skipped.
+export function resolveFolderSettings(values: object, legacy?: object): SpellSettings {
+	let settings = applySettings(getDefaultSettings(), values);
+
+	if (legacy) {
+		Object.keys(legacy).forEach(name => {
+			if (settings.hasOwnProperty(name)) {
+				settings[name] = mergeLegacyValue(legacy[name], settings[name]);
+			}
+		});
+	}
+
+	return settings;
+}
+
+// The words ignored in a folder: those of its settings and of its project dictionary
+export function getFolderIgnoreWords(settings: SpellSettings, dictionary: ProjectDictionary): string[] {
+	return settings.ignoreWordsList.concat(dictionary ? dictionary.getWords() : []);
+}
+
+// The ignore expressions apply to every document, so those of all folders are used
+export function getIgnoreRegExp(folders: SpellSettings[]): string[] {
+	let patterns: string[] = [];
+	for (let settings of folders) {
+		let added = Array.isArray(settings.ignoreRegExp) ? settings.ignoreRegExp : [];
+		patterns = patterns.concat(added.filter((pattern, index) => patterns.indexOf(pattern) < 0 && added.indexOf(pattern) == index));
+	}
+
+	return patterns;
+}
@@ -0,0 +1,106 @@
+'use strict';
+
+// A word the user wants accepted. Entries are written like dictionary entries:
+//
+//   Kubernetes     matches 'Kubernetes', 'KUBERNETES' and "Kubernetes's"
+//   iPhone         also matches 'IPhone' at the start of a sentence
+//   ~kubectl       matches any casing, e.g. 'Kubectl' or 'KubeCTL'
+//   widget/SM      hunspell style flags; affixed forms come from the dictionary
+export interface IgnoreEntry {
+	word: string;
+	flags: string;
+	caseInsensitive: boolean;
+}
+
+export default class IgnoreWords {
+	private entries: IgnoreEntry[] = [];
+	private exact: Set<string> = new Set();
+	private lowercase: Set<string> = new Set();
+
+	constructor(entries: string[]) {
+		for (let text of entries) {
+			let entry = IgnoreWords.parse(text);
+			if (!entry) {
+				continue;
+			}
+
+			this.entries.push(entry);
+
+			if (entry.caseInsensitive) {
+				this.lowercase.add(entry.word.toLowerCase());
+			}
+			else {
+				this.exact.add(entry.word);
+				this.exact.add(IgnoreWords.capitalize(entry.word));
+				this.exact.add(entry.word.toUpperCase());
+			}
+		}
+	}
+
+	public static parse(text: string): IgnoreEntry {
+		text = text.trim();
+
+		let caseInsensitive = text[0] == '~';
+		if (caseInsensitive) {
+			text = text.substring(1);
+		}
+
+		// A slash followed by flags, but not a word that merely contains a slash at the start
+		let slash = text.indexOf('/');
+		let word = slash > 0 ? text.substring(0, slash) : text;
+		let flags = slash > 0 ? text.substring(slash + 1) : '';
+
+		if (word.length == 0) {
+			return null;
+		}
+
+		return { word: word.replace(/’/g, '\''), flags: flags, caseInsensitive: caseInsensitive };
+	}
+
+	public static capitalize(word: string): string {
+		return word.charAt(0).toUpperCase() + word.substring(1);
+	}
+
+	public matches(word: string): boolean {
+		word = word.replace(/’/g, '\'');
+
+		let candidates = [word];
+
+		// Possessives of ignored words are ignored too
+		let possessive = word.match(/^(.+?)'s?$/i);
+		if (possessive) {
+			candidates.push(possessive[1]);
+		}
+
+		for (let candidate of candidates) {
+			if (this.exact.has(candidate) || this.lowercase.has(candidate.toLowerCase())) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	// Lines in .dic format that add the entries to a loaded hunspell dictionary, so
+	// flags are applied with the dictionary's own affix rules
+	public toDictionaryLines(): string[] {
+		let lines: string[] = [];
+
+		for (let entry of this.entries) {
+			let word = entry.caseInsensitive ? entry.word.toLowerCase() : entry.word;
+			let forms = [word];
+
+			// Lowercase entries already accept capitalized forms
+			if (IgnoreWords.capitalize(word) != word && word.toLowerCase() != word) {
+				forms.push(IgnoreWords.capitalize(word));
+			}
+
+			for (let form of forms) {
+				lines.push(entry.flags.length > 0 ? form + '/' + entry.flags : form);
+				lines.push(form + '\'s');
+			}
+		}
+
+		return lines;
+	}
+}
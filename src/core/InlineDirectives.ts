@@ -0,0 +1,103 @@
+'use strict';
+
+// Directives written in the document itself, inside an HTML comment in Markdown, a
+// '%' comment in LaTeX or on a line of their own in plain text:
+//
+//   <!-- spellchecker: disable -->            stop checking
+//   <!-- spellchecker: enable -->             start checking again
+//   % spellchecker: disable-next-line         skip the line that follows
+//   spellchecker: ignore kubectl minikube     accept words in this document only
+const DIRECTIVE: RegExp = /(<!--[ \t]*)?\bspellchecker:[ \t]*(disable-next-line|disable|enable|ignore)\b([^\r\n]*?)(-->|$)/gm;
+
+interface Region {
+	start: number;
+	end: number;
+}
+
+export default class InlineDirectives {
+	// Offsets of text that is not checked, including the directives themselves
+	private regions: Region[] = [];
+
+	// Text of each directive, in document order
+	private directives: string[] = [];
+
+	// Words accepted by 'ignore' directives
+	public readonly ignoreWords: string[] = [];
+
+	public static parse(text: string): InlineDirectives {
+		let directives = new InlineDirectives();
+		let disabledAt = -1;
+		let match: RegExpExecArray;
+
+		DIRECTIVE.lastIndex = 0;
+		while ((match = DIRECTIVE.exec(text)) !== null) {
+			let start = match.index;
+			let end = match.index + match[0].length;
+
+			switch (match[2]) {
+				case 'disable':
+					if (disabledAt < 0) {
+						disabledAt = start;
+					}
+					break;
+				case 'enable':
+					if (disabledAt >= 0) {
+						directives.regions.push({ start: disabledAt, end: end });
+						disabledAt = -1;
+					}
+					break;
+				case 'disable-next-line':
+					let next = text.indexOf('\n', end);
+					if (next >= 0) {
+						let lineEnd = text.indexOf('\n', next + 1);
+						directives.regions.push({ start: next + 1, end: lineEnd >= 0 ? lineEnd : text.length });
+					}
+					break;
+				case 'ignore':
+					directives.ignoreWords.push(...match[3].split(/[\s,]+/).filter(word => word.length > 0));
+					break;
+			}
+
+			directives.regions.push({ start: start, end: end });
+			directives.directives.push(match[0].trim());
+		}
+
+		// A region that is never enabled again lasts until the end of the document
+		if (disabledAt >= 0) {
+			directives.regions.push({ start: disabledAt, end: text.length });
+		}
+
+		return directives;
+	}
+
+	// Blank out the text that isn't checked. `text` starts at `baseOffset` in the
+	// document the directives were parsed from; line breaks are kept so offsets
+	// stay the same.
+	public mask(text: string, baseOffset: number = 0): string {
+		let chars: string[] = null;
+
+		for (let region of this.regions) {
+			let start = Math.max(region.start - baseOffset, 0);
+			let end = Math.min(region.end - baseOffset, text.length);
+			if (start >= end) {
+				continue;
+			}
+
+			chars = chars || text.split('');
+			for (let i = start; i < end; i++) {
+				if (chars[i] != '\r' && chars[i] != '\n') {
+					chars[i] = ' ';
+				}
+			}
+		}
+
+		return chars ? chars.join('') : text;
+	}
+
+	// Whether the same directives appear in the same order. Text moving around them
+	// doesn't matter, but adding, removing or changing one affects text anywhere in
+	// the document.
+	public equals(other: InlineDirectives): boolean {
+		return this.directives.join('\n') == other.directives.join('\n');
+	}
+}
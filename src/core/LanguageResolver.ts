@@ -0,0 +1,79 @@
+'use strict';
+
+import { mask } from './extractors/TextExtractor';
+
+// Where the language of a document came from, in order of precedence
+export type LanguageSource = 'directive' | 'frontMatter' | 'folder' | 'default';
+
+export interface ResolvedLanguage {
+	languages: string[];
+	source: LanguageSource;
+}
+
+// Inline directives, e.g. '<!-- spellchecker-language: fr -->', '% spellchecker-language: en_GB-ise, es_ANY'
+// or the TeX magic comment '% !TeX spellcheck = en_GB'
+const DIRECTIVE: RegExp = /\bspellchecker-language:\s*([A-Za-z][\w\-]*(?:\s*,\s*[A-Za-z][\w\-]*)*)/i;
+const TEX_MAGIC_COMMENT: RegExp = /^\s*%\s*!TeX\s+spellcheck\s*=\s*([A-Za-z][\w\-]*)/im;
+
+// Pandoc YAML front matter at the very start of the document
+const FRONT_MATTER: RegExp = /^-{3}\r?\n([\w\W]*?)\r?\n(\.{3}|-{3})[ \t]*(\r?\n|$)/;
+const FRONT_MATTER_LANG: RegExp = /^lang:\s*["']?([A-Za-z][\w\-]*)["']?\s*$/m;
+
+// Blank out language directives so they aren't spell checked themselves
+export function maskLanguageDirectives(text: string): string {
+	text = mask(text, new RegExp(DIRECTIVE.source, 'gi'));
+	return mask(text, new RegExp(TEX_MAGIC_COMMENT.source, 'gim'));
+}
+
+// Find the dictionary for a language name such as 'en-US', 'fr-FR' or 'es'
+export function matchLanguage(name: string, available: string[]): string {
+	// Both sides use '_' for '-', so 'en_GB-ise' and 'en-GB-ise' name the same dictionary
+	let normalize = (language: string) => language.trim().replace(/-/g, '_').toLowerCase();
+	let normalized = normalize(name);
+	let lowercase = available.map(normalize);
+
+	// 'en_US' or 'en_GB-ize'
+	let index = lowercase.indexOf(normalized);
+	if (index >= 0) {
+		return available[index];
+	}
+
+	// 'en_GB' for 'en_GB-ize'
+	index = lowercase.findIndex(language => language.indexOf(normalized + '_') == 0);
+	if (index >= 0) {
+		return available[index];
+	}
+
+	// 'fr' for 'fr-FR' and 'es_ANY' for 'es'
+	let base = normalized.split('_')[0];
+	index = lowercase.indexOf(base);
+	if (index < 0) {
+		index = lowercase.findIndex(language => language.indexOf(base + '_') == 0);
+	}
+
+	return index >= 0 ? available[index] : null;
+}
+
+// Language chosen by the document itself, through an inline directive or the
+// `lang` key of the front matter. Returns null if the document doesn't choose one
+// or names no available dictionary.
+export function resolveDocumentLanguage(text: string, available: string[]): ResolvedLanguage {
+	let directive = text.match(DIRECTIVE) || text.match(TEX_MAGIC_COMMENT);
+	if (directive) {
+		let languages = directive[1].split(',').map(name => matchLanguage(name, available)).filter(language => language !== null);
+		if (languages.length > 0) {
+			return { languages: languages, source: 'directive' };
+		}
+	}
+
+	let frontMatter = text.match(FRONT_MATTER);
+	if (frontMatter) {
+		let lang = frontMatter[1].match(FRONT_MATTER_LANG);
+		let language = lang ? matchLanguage(lang[1], available) : null;
+		if (language !== null) {
+			return { languages: [language], source: 'frontMatter' };
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,81 @@
+'use strict';
+
+// Limits on the number of spelling errors reported for a file. Zero means no limit.
+export interface ProblemLimits {
+	maxProblems: number;
+	maxDuplicateProblems: number;
+}
+
+// Every error is reported, e.g. after 'Show All Spelling Errors in Document'
+export const NO_LIMITS: ProblemLimits = { maxProblems: 0, maxDuplicateProblems: 0 };
+
+export interface LimitedErrors<T> {
+	// The errors to report, in their original order
+	shown: T[];
+	// Number of errors that were found but not reported
+	hidden: number;
+	// Number of unreported occurrences of each word that has some reported ones,
+	// so the last reported occurrence can mention them
+	collapsed: Map<string, number>;
+}
+
+// Report at most `maxDuplicateProblems` occurrences of each word, and at most
+// `maxProblems` errors in total. Every word is still checked; only the reporting
+// is limited.
+export function limitErrors<T extends { word: string }>(errors: T[], limits: ProblemLimits): LimitedErrors<T> {
+	let shown: T[] = [];
+	let collapsed: Map<string, number> = new Map();
+	let counts: Map<string, number> = new Map();
+	let hidden = 0;
+
+	for (let error of errors) {
+		let count = counts.get(error.word) || 0;
+		counts.set(error.word, count + 1);
+
+		if (limits.maxDuplicateProblems > 0 && count >= limits.maxDuplicateProblems) {
+			collapsed.set(error.word, (collapsed.get(error.word) || 0) + 1);
+			hidden++;
+		}
+		else if (limits.maxProblems > 0 && shown.length >= limits.maxProblems) {
+			hidden++;
+		}
+		else {
+			shown.push(error);
+		}
+	}
+
+	// Words without a reported occurrence can't mention the collapsed ones
+	for (let word of Array.from(collapsed.keys())) {
+		if (!shown.some(error => error.word == word)) {
+			collapsed.delete(word);
+		}
+	}
+
+	return { shown: shown, hidden: hidden, collapsed: collapsed };
+}
+
+// The number of unreported occurrences each reported error mentions: the last
+// reported occurrence of a word mentions its collapsed ones, the others none
+export function getCollapsedCounts<T extends { word: string }>(limited: LimitedErrors<T>): number[] {
+	let counts: number[] = limited.shown.map(() => 0);
+
+	limited.collapsed.forEach((count, word) => {
+		for (let i = limited.shown.length - 1; i >= 0; i--) {
+			if (limited.shown[i].word == word) {
+				counts[i] = count;
+				break;
+			}
+		}
+	});
+
+	return counts;
+}
+
+export function describeError(word: string, collapsed: number): string {
+	return 'Spelling [ ' + word + ' ]: unknown word' + (collapsed > 0 ? ' (' + String(collapsed) + ' more not shown)' : '');
+}
+
+// `filename` is left out where the message is shown in the file itself
+export function describeHidden(hidden: number, total: number, filename?: string): string {
+	return String(hidden) + ' of ' + String(total) + ' spelling errors' + (filename ? ' in ' + filename : '') + ' are not shown because of the \'spellchecker.maxProblems\' and \'spellchecker.maxDuplicateProblems\' settings';
+}
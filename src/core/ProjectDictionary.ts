@@ -0,0 +1,155 @@
+'use strict';
+
+import * as path from 'path';
+import * as fs from 'fs';
+let mkdirp = require('mkdirp');
+
+// Plain text word list, one word per line, that is meant to be committed along with
+// the project. Lines starting with '#' are comments. Words are added and removed
+// without touching the other lines, so comments and blank lines are kept.
+export default class ProjectDictionary {
+	// The lines of the file, and the words among them
+	private lines: string[] = [];
+	private words: string[] = [];
+	private eol: string = '\n';
+	// Why the file couldn't be read; it is treated as empty and isn't saved over then
+	public loadError: string = null;
+
+	constructor(public readonly filename: string) {
+		this.load();
+	}
+
+	// The words of a word list, without comments, blank lines and duplicates
+	public static parseWords(text: string): string[] {
+		return ProjectDictionary.getWords(text.split(/\r?\n/));
+	}
+
+	private static getWords(lines: string[]): string[] {
+		let words: string[] = [];
+
+		for (let line of lines) {
+			let word = line.trim();
+			if (word.length > 0 && word[0] != '#' && words.indexOf(word) < 0) {
+				words.push(word);
+			}
+		}
+
+		return words;
+	}
+
+	public load(): void {
+		let text = '';
+		this.loadError = null;
+
+		try {
+			if (fs.existsSync(this.filename)) {
+				text = fs.readFileSync(this.filename, 'utf-8');
+			}
+		}
+		catch (e) {
+			this.loadError = 'The project dictionary \'' + this.filename + '\' could not be read: ' + e.message;
+		}
+
+		this.eol = text.indexOf('\r\n') >= 0 ? '\r\n' : '\n';
+
+		// The final line break doesn't start another line
+		let lines = text.length > 0 ? text.split(/\r?\n/) : [];
+		if (lines.length > 0 && lines[lines.length - 1] == '') {
+			lines.pop();
+		}
+		this.setLines(lines);
+	}
+
+	public getWords(): string[] {
+		return this.words.concat();
+	}
+
+	public has(word: string): boolean {
+		return this.words.indexOf(word) >= 0;
+	}
+
+	// Returns false if the word is already in the dictionary. Throws if the file
+	// can't be written.
+	public add(word: string): boolean {
+		return this.addWords([word]) > 0;
+	}
+
+	// Returns false if the word is not in the dictionary. Throws if the file can't
+	// be written.
+	public remove(word: string): boolean {
+		return this.removeWords([word]) > 0;
+	}
+
+	// Add several words, saving once. Returns the number of words that were added.
+	public addWords(words: string[]): number {
+		let added = words.filter((word, index) => !this.has(word) && words.indexOf(word) == index);
+		if (added.length > 0) {
+			let lines = this.lines.concat();
+			for (let word of added) {
+				ProjectDictionary.insertWord(lines, word);
+			}
+			this.save(lines);
+		}
+
+		return added.length;
+	}
+
+	// Remove several words, saving once. Returns the number of words that were removed.
+	public removeWords(words: string[]): number {
+		let removed = this.words.filter(word => words.indexOf(word) >= 0);
+		if (removed.length > 0) {
+			this.save(this.lines.filter(line => removed.indexOf(line.trim()) < 0));
+		}
+
+		return removed.length;
+	}
+
+	// Create an empty dictionary file if there isn't one yet
+	public ensureExists(): void {
+		if (!fs.existsSync(this.filename)) {
+			this.save(this.lines);
+		}
+	}
+
+	// A new word goes after the last word that sorts before it, so a sorted list
+	// stays sorted and the file diffs cleanly
+	private static insertWord(lines: string[], word: string): void {
+		let index = -1;
+		let first = -1;
+
+		lines.forEach((line, i) => {
+			let entry = line.trim();
+			if (entry.length == 0 || entry[0] == '#') {
+				return;
+			}
+
+			if (first < 0) {
+				first = i;
+			}
+			if (entry.localeCompare(word) <= 0) {
+				index = i + 1;
+			}
+		});
+
+		if (index < 0) {
+			index = first < 0 ? lines.length : first;
+		}
+		lines.splice(index, 0, word);
+	}
+
+	private setLines(lines: string[]): void {
+		this.lines = lines;
+		this.words = ProjectDictionary.getWords(lines);
+	}
+
+	// The lines are only kept once they are written
+	private save(lines: string[]): void {
+		if (this.loadError) {
+			throw new Error(this.loadError);
+		}
+
+		mkdirp.sync(path.dirname(this.filename));
+		fs.writeFileSync(this.filename, lines.map(line => line + this.eol).join(''), 'utf-8');
+		this.setLines(lines);
+	}
+}
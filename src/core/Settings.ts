@@ -0,0 +1,141 @@
+'use strict';
+
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+let jsonMinify = require('jsonminify');
+
+// The spellchecker.* settings, shared by the extension and the command line
+export interface SpellSettings {
+	language: string | string[],
+	ignoreWordsList: string[];
+	documentTypes: string[];
+	ignoreRegExp: string[];
+	ignoreFileExtensions: string[];
+	ignoreFilenames: string[];
+	include: string[];
+	exclude: string[];
+	useGitignore: boolean;
+	checkInterval: number;
+	suggestionSeverity: string;
+	projectDictionary: string;
+	dictionaryPaths: string[];
+	maxProblems: number;
+	maxDuplicateProblems: number;
+}
+
+export function getDefaultSettings(): SpellSettings {
+	return {
+		language: 'en_US',
+		ignoreWordsList: [],
+		documentTypes: ['markdown', 'latex', 'plaintext'],
+		ignoreRegExp: [],
+		ignoreFileExtensions: [],
+		ignoreFilenames: [],
+		include: [],
+		exclude: [],
+		useGitignore: true,
+		checkInterval: 5000,
+		suggestionSeverity: 'Warning',
+		projectDictionary: '.vscode/spellchecker.dic',
+		dictionaryPaths: [],
+		maxProblems: 250,
+		maxDuplicateProblems: 20
+	};
+}
+
+export type SeverityName = 'Error' | 'Warning' | 'Information' | 'Hint';
+
+// The severity of spelling errors, named as in the DiagnosticSeverity enums of VS Code
+// and the language server protocol. Unknown values are warnings.
+export function getSeverityName(settings: SpellSettings): SeverityName {
+	let names: SeverityName[] = ['Error', 'Warning', 'Information', 'Hint'];
+	let index = names.indexOf(settings.suggestionSeverity as SeverityName);
+
+	return index >= 0 ? names[index] : 'Warning';
+}
+
+// Overwrite `settings` with the values in `values`. Keys can be written with the
+// 'spellchecker.' prefix, as in settings.json, or without it.
+export function applySettings(settings: SpellSettings, values: object): SpellSettings {
+	Object.keys(settings).forEach(key => {
+		let value = values['spellchecker.' + key] !== undefined ? values['spellchecker.' + key] : values[key];
+
+		// false and 0 are valid values for boolean and number settings
+		if (value || value === false || value === 0) {
+			settings[key] = value;
+		}
+	});
+
+	return settings;
+}
+
+// Read a JSON settings file, which may contain comments and trailing commas like
+// VS Code's settings.json
+export function readSettingsFile(filename: string): object {
+	return parseSettings(fs.readFileSync(filename, 'utf-8'));
+}
+
+export function parseSettings(text: string): object {
+	return JSON.parse(removeTrailingCommas(jsonMinify(text)));
+}
+
+// Remove commas that are followed by a closing bracket, outside of strings
+function removeTrailingCommas(json: string): string {
+	let result = '';
+	let inString = false;
+
+	for (let i = 0; i < json.length; i++) {
+		let char = json[i];
+
+		if (inString) {
+			if (char == '\\') {
+				result += json.substring(i, i + 2);
+				i++;
+				continue;
+			}
+			inString = char != '"';
+		}
+		else if (char == '"') {
+			inString = true;
+		}
+		else if (char == ',') {
+			let next = i + 1;
+			while (next < json.length && /\s/.test(json[next])) {
+				next++;
+			}
+			if (json[next] == '}' || json[next] == ']') {
+				continue;
+			}
+		}
+
+		result += char;
+	}
+
+	return result;
+}
+
+// The language setting can name a single language or a list of them
+export function getLanguages(language: string | string[]): string[] {
+	let languages = Array.isArray(language) ? language : [language];
+
+	return languages.length > 0 ? languages : ['en_US'];
+}
+
+// Paths in the settings may start with '~' or be relative to `root`. Relative paths
+// can't be resolved without a root.
+export function resolvePath(filename: string, root: string): string {
+	if (!filename) {
+		return '';
+	}
+
+	if (filename[0] == '~' && (filename.length == 1 || filename[1] == '/' || filename[1] == '\\')) {
+		return path.join(os.homedir(), filename.substring(1));
+	}
+
+	if (!path.isAbsolute(filename)) {
+		return root ? path.join(root, filename) : '';
+	}
+
+	return filename;
+}
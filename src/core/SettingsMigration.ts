@@ -0,0 +1,135 @@
+'use strict';
+
+import * as fs from 'fs';
+import { SpellSettings, getDefaultSettings, parseSettings } from './Settings';
+
+// The settings of a legacy .vscode/spellchecker.json, without the 'spellchecker.'
+// prefix. Keys that aren't spellchecker settings are listed in `unknown`.
+export interface LegacySettings {
+	settings: Partial<SpellSettings>;
+	unknown: string[];
+}
+
+export interface SettingChange {
+	key: string;
+	// The value in settings.json, undefined if it isn't set there
+	current: any;
+	migrated: any;
+}
+
+// What migrating a legacy file would change in settings.json. Settings whose value
+// wouldn't change aren't listed.
+export interface MigrationPlan {
+	changes: SettingChange[];
+	unknown: string[];
+}
+
+// Keys can be written with or without the 'spellchecker.' prefix, as in settings.json
+export function normalizeLegacySettings(values: object): LegacySettings {
+	let known = getDefaultSettings();
+	let result: LegacySettings = { settings: {}, unknown: [] };
+
+	Object.keys(values).forEach(name => {
+		let key = name.indexOf('spellchecker.') == 0 ? name.substring('spellchecker.'.length) : name;
+
+		if (known.hasOwnProperty(key) && values[name] !== undefined && values[name] !== null) {
+			result.settings[key] = values[name];
+		}
+		else {
+			result.unknown.push(name);
+		}
+	});
+
+	return result;
+}
+
+// Read a legacy settings file, which may contain comments and trailing commas.
+// Throws if the file isn't a JSON object.
+export function readLegacySettings(filename: string): LegacySettings {
+	return parseLegacySettings(fs.readFileSync(filename, 'utf-8'), filename);
+}
+
+export function parseLegacySettings(text: string, filename: string = 'spellchecker.json'): LegacySettings {
+	let values = parseSettings(text);
+
+	if (!values || typeof values != 'object' || Array.isArray(values)) {
+		throw new Error('\'' + filename + '\' doesn\'t contain a JSON object');
+	}
+
+	return normalizeLegacySettings(values);
+}
+
+// The value of a setting while a legacy file applies: legacy list entries come before
+// the entries of `value`, and other legacy values replace `value`
+export function mergeLegacyValue(legacy: any, value: any): any {
+	if (!Array.isArray(legacy)) {
+		return legacy;
+	}
+
+	let entries: any[] = Array.isArray(value) ? value : [];
+	let added = legacy.filter((entry, index) => entries.indexOf(entry) < 0 && legacy.indexOf(entry) == index);
+
+	return added.concat(entries);
+}
+
+// Migrating writes the values that apply while the legacy file does, so documents are
+// checked the same way afterwards. `effective` holds the values that apply without
+// the legacy file, including defaults, and `current` those of the settings.json that
+// is migrated to; both are without the prefix.
+export function planMigration(legacy: LegacySettings, current: object, effective: object): MigrationPlan {
+	let changes: SettingChange[] = [];
+
+	Object.keys(legacy.settings).forEach(key => {
+		let migrated = mergeLegacyValue(legacy.settings[key], effective[key]);
+
+		if (JSON.stringify(migrated) != JSON.stringify(effective[key])) {
+			changes.push({ key: key, current: current[key], migrated: migrated });
+		}
+	});
+
+	return { changes: changes, unknown: legacy.unknown.concat() };
+}
+
+// A dry run of the migration: one line for each setting that would change
+export function describeMigration(plan: MigrationPlan): string[] {
+	let lines: string[] = plan.changes.map(change => {
+		let name = 'spellchecker.' + change.key;
+
+		let added = Array.isArray(change.migrated) && Array.isArray(change.current) ? change.migrated.filter(item => change.current.indexOf(item) < 0) : [];
+
+		if (added.length > 0) {
+			return name + ': add ' + added.map(item => JSON.stringify(item)).join(', ');
+		}
+		else if (change.current === undefined) {
+			return name + ': set to ' + JSON.stringify(change.migrated);
+		}
+		else {
+			return name + ': change ' + JSON.stringify(change.current) + ' to ' + JSON.stringify(change.migrated);
+		}
+	});
+
+	if (lines.length == 0) {
+		lines.push('No settings would change');
+	}
+
+	for (let name of plan.unknown) {
+		lines.push(name + ': not a spellchecker setting, skipped');
+	}
+
+	return lines;
+}
+
+// The changed settings.json entries, as removed and added lines of a diff
+export function formatMigrationDiff(plan: MigrationPlan, filename: string = 'settings.json'): string {
+	let lines: string[] = ['--- ' + filename, '+++ ' + filename + ' (migrated)'];
+
+	for (let change of plan.changes) {
+		let name = JSON.stringify('spellchecker.' + change.key);
+		if (change.current !== undefined) {
+			lines.push('-' + name + ': ' + JSON.stringify(change.current) + ',');
+		}
+		lines.push('+' + name + ': ' + JSON.stringify(change.migrated) + ',');
+	}
+
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,294 @@
+'use strict';
+
+import SpellCheckWorkerClient from './worker/SpellCheckWorkerClient';
+import { DictionaryFiles, Suggestion } from './worker/protocol';
+import TextExtractorRegistry from './extractors/TextExtractorRegistry';
+import { mask } from './extractors/TextExtractor';
+import { DictionaryInfo } from './DictionaryDiscovery';
+import { maskLanguageDirectives } from './LanguageResolver';
+import IgnoreWords from './IgnoreWords';
+import InlineDirectives from './InlineDirectives';
+import SuggestionCache from './SuggestionCache';
+
+// A misspelled word and its position in the document text
+export interface SpellingError {
+	word: string;
+	offset: number;
+	length: number;
+}
+
+export interface CheckResult {
+	errors: SpellingError[];
+	// The languages that were checked; languages without a usable dictionary are left out
+	languages: string[];
+	directives: InlineDirectives;
+}
+
+// Checks the text of documents against hunspell dictionaries. Knows nothing about
+// editors, so it is shared by the extension and the command line.
+export default class SpellChecker {
+	private client: SpellCheckWorkerClient = new SpellCheckWorkerClient();
+	private extractors: TextExtractorRegistry = TextExtractorRegistry.createDefault();
+	private suggestionCache: SuggestionCache = new SuggestionCache();
+	// Lookups in progress by cache key, shared by everyone asking for the same word
+	private pendingSuggestions: Map<string, Promise<Suggestion[]>> = new Map();
+	private dictionaries: DictionaryInfo[] = [];
+	// The .dic file loaded for each language
+	private loadedDictionaries: Map<string, string> = new Map();
+	private failedLanguages: Map<string, string> = new Map();
+	private ignoreWords: IgnoreWords = new IgnoreWords([]);
+	private folderIgnoreWords: Map<string, IgnoreWords> = new Map();
+	private ignoreRegExp: RegExp[] = [];
+
+	// Called once for each language that has no usable dictionary
+	public onLanguageFailure: (language: string, message: string) => void = () => undefined;
+
+	// Dictionaries that can be loaded. Earlier ones take precedence over later ones
+	// with the same name.
+	public setDictionaries(dictionaries: DictionaryInfo[]): void {
+		this.dictionaries = dictionaries;
+
+		// Dictionaries are looked up again, so earlier problems may have been fixed
+		this.failedLanguages.clear();
+	}
+
+	public getDictionary(language: string): DictionaryInfo {
+		return this.dictionaries.find(dictionary => dictionary.language == language);
+	}
+
+	// Names of the dictionaries that can be used, without duplicates
+	public getAvailableLanguages(): string[] {
+		let languages: string[] = [];
+		for (let dictionary of this.dictionaries) {
+			if (languages.indexOf(dictionary.language) < 0) {
+				languages.push(dictionary.language);
+			}
+		}
+
+		return languages;
+	}
+
+	// Make sure the worker has parsed the dictionaries for `languages`. Resolves with
+	// the languages that can be used; the others are reported once each.
+	public ensureLanguages(languages: string[]): Promise<string[]> {
+		let files: DictionaryFiles[] = [];
+
+		for (let language of languages) {
+			let dictionary = this.getDictionary(language);
+			if (this.failedLanguages.has(language)) {
+				continue;
+			}
+			else if (!dictionary) {
+				this.reportLanguageFailure(language, 'No dictionary was found for \'' + language + '\'. Add its .aff and .dic files to a folder listed in \'spellchecker.dictionaryPaths\'.');
+			}
+			else if (this.loadedDictionaries.get(language) != dictionary.dic) {
+				files.push({ language: language, aff: dictionary.aff, dic: dictionary.dic });
+				this.loadedDictionaries.set(language, dictionary.dic);
+			}
+		}
+
+		let usable = () => languages.filter(language => this.loadedDictionaries.has(language));
+		if (files.length == 0) {
+			return Promise.resolve(usable());
+		}
+
+		return this.client.load(files).then(failures => {
+			for (let failure of failures) {
+				this.loadedDictionaries.delete(failure.language);
+				this.reportLanguageFailure(failure.language, 'The dictionary for \'' + failure.language + '\' could not be loaded: ' + failure.error);
+			}
+		}, error => {
+			for (let file of files) {
+				this.loadedDictionaries.delete(file.language);
+				this.reportLanguageFailure(file.language, 'The dictionary for \'' + file.language + '\' could not be loaded: ' + error.message);
+			}
+		}).then(usable);
+	}
+
+	private reportLanguageFailure(language: string, message: string): void {
+		this.failedLanguages.set(language, message);
+		this.onLanguageFailure(language, message);
+	}
+
+	// Ignored words and project dictionary words are also added to the loaded
+	// dictionaries, so they get the same casing and affix handling as dictionary words
+	public setIgnoreWords(entries: string[]): Promise<void> {
+		this.ignoreWords = new IgnoreWords(entries);
+		this.folderIgnoreWords.clear();
+
+		return this.client.setWords(this.ignoreWords.toDictionaryLines());
+	}
+
+	// Ignored words of each workspace folder, for checks that name the folder. Only
+	// the words that every folder ignores are added to the dictionaries; the others
+	// are accepted without their affixed forms.
+	public setFolderIgnoreWords(folders: { [folder: string]: string[] }): Promise<void> {
+		let keys = Object.keys(folders);
+		let common = keys.length == 0 ? [] : folders[keys[0]].filter(entry => keys.every(key => folders[key].indexOf(entry) >= 0));
+
+		this.ignoreWords = new IgnoreWords(common);
+		this.folderIgnoreWords.clear();
+		for (let key of keys) {
+			this.folderIgnoreWords.set(key, new IgnoreWords(folders[key]));
+		}
+
+		return this.client.setWords(this.ignoreWords.toDictionaryLines());
+	}
+
+	public getIgnoreWords(): IgnoreWords {
+		return this.ignoreWords;
+	}
+
+	// Regular expressions from the ignoreRegExp setting, written as '/pattern/flags'
+	// strings with escaped backslashes. Returns the patterns that aren't valid.
+	public setIgnoreRegExp(patterns: string[]): string[] {
+		let invalid: string[] = [];
+		this.ignoreRegExp = [];
+
+		for (let source of patterns) {
+			let flags = source.replace(/.*\/([gimy]*)$/, '$1');
+			let pattern = source.replace(new RegExp('^/(.*?)/' + flags + '$'), '$1');
+
+			pattern = pattern.replace(/\\\\/g, '\\');
+
+			try {
+				this.ignoreRegExp.push(new RegExp(pattern, flags));
+			}
+			catch (e) {
+				invalid.push(source);
+			}
+		}
+
+		return invalid;
+	}
+
+	public getTextExtractors(): TextExtractorRegistry {
+		return this.extractors;
+	}
+
+	// Check the words of `text` between `start` and `end`, or of the whole text.
+	// `document` identifies the text, so that a newer check of the same document
+	// cancels this one; the result is null then. `folder` selects the ignored words
+	// set with setFolderIgnoreWords.
+	public check(document: string, text: string, languageId: string, languages: string[], start: number = 0, end: number = text.length, folder: string = ''): Promise<CheckResult> {
+		// Directives can be anywhere in the document, not just in the checked part
+		let directives = InlineDirectives.parse(text);
+		let documentWords = new IgnoreWords(directives.ignoreWords);
+		let folderWords = this.folderIgnoreWords.get(folder) || new IgnoreWords([]);
+
+		// Remove everything that isn't prose for this document type. Removed text is
+		// blanked out rather than deleted, so token offsets match the document. The
+		// extractors see the whole text, since code blocks, comments and front matter
+		// can start before the checked part; only the words inside it are checked.
+		let prose = directives.mask(text);
+		for (let regex of this.ignoreRegExp) {
+			prose = mask(prose, regex);
+		}
+		let tokens = this.extractors.get(languageId).extract(maskLanguageDirectives(prose)).filter(token => token.offset >= start && token.offset < end);
+
+		// Words are checked once each, however often they appear
+		let words: string[] = [];
+		let seen: Set<string> = new Set();
+		for (let token of tokens) {
+			let word = token.word.replace(/’/g, '\'');
+			if (word.length > 3 && !seen.has(word)) {
+				seen.add(word);
+				words.push(word);
+			}
+		}
+
+		let checked: string[];
+		return this.ensureLanguages(languages).then(usable => {
+			// Without a dictionary every word would be reported
+			checked = usable;
+			if (usable.length == 0) {
+				return [];
+			}
+
+			return this.client.check(document, usable, words);
+		}).then(misspelled => {
+			if (misspelled === null) {
+				return null;
+			}
+
+			// Make sure words aren't in the ignore list, the project dictionary, the
+			// folder's ignore list or the document's own ignore directives
+			let errors: Set<string> = new Set();
+			for (let word of misspelled) {
+				if (!this.ignoreWords.matches(word) && !folderWords.matches(word) && !documentWords.matches(word)) {
+					errors.add(word);
+				}
+			}
+
+			let result: SpellingError[] = [];
+			for (let token of tokens) {
+				let word = token.word.replace(/’/g, '\'');
+				if (errors.has(word)) {
+					result.push({ word: word, offset: token.offset, length: token.word.length });
+				}
+			}
+
+			return { errors: result, languages: checked, directives: directives };
+		});
+	}
+
+	// Suggestions for a misspelled word from the dictionaries of `languages`. They
+	// are cached, since looking them up is slow, and concurrent lookups of the same
+	// word share one request.
+	public suggest(word: string, languages: string[]): Promise<Suggestion[]> {
+		// The longest English word is 45 characters, and words with numbers have no suggestions
+		if (word.length >= 50 || word.match(/[0-9]+/g) != null) {
+			return Promise.resolve([]);
+		}
+
+		let cached = this.suggestionCache.get(languages, word);
+		if (cached) {
+			return Promise.resolve(cached);
+		}
+
+		let key = this.suggestionCache.key(languages, word);
+		let pending = this.pendingSuggestions.get(key);
+		if (pending) {
+			return pending;
+		}
+
+		// Only one lookup per key is in progress, so none cancels another
+		pending = this.client.suggest('suggestions:' + key, languages, [word]).then(suggestions => {
+			// Suggestions from before clearSuggestions aren't cached
+			let current = this.pendingSuggestions.get(key) === pending;
+			if (current) {
+				this.pendingSuggestions.delete(key);
+			}
+
+			if (suggestions === null) {
+				throw new Error('The lookup was cancelled');
+			}
+
+			if (current) {
+				this.suggestionCache.set(languages, word, suggestions[0]);
+			}
+			return suggestions[0];
+		}, error => {
+			if (this.pendingSuggestions.get(key) === pending) {
+				this.pendingSuggestions.delete(key);
+			}
+			throw error;
+		});
+		this.pendingSuggestions.set(key, pending);
+
+		return pending;
+	}
+
+	public clearSuggestions(): void {
+		this.suggestionCache.clear();
+		this.pendingSuggestions.clear();
+	}
+
+	public cancel(document: string): void {
+		this.client.cancel(document);
+	}
+
+	public dispose(): void {
+		this.client.dispose();
+	}
+}
@@ -0,0 +1,83 @@
+'use strict';
+
+// Misspelled words found across a set of files, and how often each word appears
+// in each file
+export default class SpellingReport {
+	private words: Map<string, Map<string, number>> = new Map();
+	private files: string[] = [];
+
+	public add(file: string, misspelled: string[]): void {
+		this.files.push(file);
+
+		for (let word of misspelled) {
+			let files = this.words.get(word);
+			if (!files) {
+				files = new Map();
+				this.words.set(word, files);
+			}
+			files.set(file, (files.get(file) || 0) + 1);
+		}
+	}
+
+	public get fileCount(): number {
+		return this.files.length;
+	}
+
+	public get errorCount(): number {
+		let count = 0;
+		for (let word of Array.from(this.words.keys())) {
+			count += this.getCount(word);
+		}
+		return count;
+	}
+
+	// Words sorted by how often they appear, most frequent first
+	public getWords(): string[] {
+		return Array.from(this.words.keys()).sort((a, b) => this.getCount(b) - this.getCount(a) || a.localeCompare(b));
+	}
+
+	public getCount(word: string): number {
+		let files = this.words.get(word);
+		return files ? Array.from(files.values()).reduce((count, n) => count + n, 0) : 0;
+	}
+
+	// The files that contain `word`, sorted by name
+	public getFiles(word: string): string[] {
+		let files = this.words.get(word);
+		return files ? Array.from(files.keys()).sort() : [];
+	}
+
+	public toJSON(): object {
+		return {
+			files: this.fileCount,
+			errors: this.errorCount,
+			words: this.getWords().map(word => {
+				return {
+					word: word,
+					count: this.getCount(word),
+					files: this.getFiles(word).map(file => {
+						return { file: file, count: this.words.get(word).get(file) };
+					})
+				};
+			})
+		};
+	}
+
+	public toMarkdown(): string {
+		let lines: string[] = [
+			'# Spelling Report',
+			'',
+			String(this.errorCount) + ' spelling errors in ' + String(this.fileCount) + ' files.',
+			'',
+			'| Word | Count | Files |',
+			'| ---- | ----: | ----- |'
+		];
+
+		for (let word of this.getWords()) {
+			let files = this.getFiles(word).map(file => '`' + file + '` (' + String(this.words.get(word).get(file)) + ')');
+			lines.push('| ' + word + ' | ' + String(this.getCount(word)) + ' | ' + files.join(', ') + ' |');
+		}
+
+		return lines.join('\n') + '\n';
+	}
+}
@@ -0,0 +1,45 @@
+'use strict';
+
+import { Suggestion } from './worker/protocol';
+
+// Suggestions for misspelled words, keyed by the loaded languages and the word.
+// Only the most recently used entries are kept so the cache can't grow without bound.
+export default class SuggestionCache {
+	private entries: Map<string, Suggestion[]> = new Map<string, Suggestion[]>();
+
+	constructor(private capacity: number = 1000) {
+	}
+
+	public get(languages: string[], word: string): Suggestion[] {
+		let key = this.key(languages, word);
+		if (!this.entries.has(key)) {
+			return undefined;
+		}
+
+		// Move the entry to the end so it is evicted last
+		let suggestions = this.entries.get(key);
+		this.entries.delete(key);
+		this.entries.set(key, suggestions);
+
+		return suggestions;
+	}
+
+	public set(languages: string[], word: string, suggestions: Suggestion[]): void {
+		let key = this.key(languages, word);
+		this.entries.delete(key);
+		this.entries.set(key, suggestions);
+
+		// Maps iterate in insertion order, so the first key is the least recently used
+		while (this.entries.size > this.capacity) {
+			this.entries.delete(this.entries.keys().next().value);
+		}
+	}
+
+	public clear(): void {
+		this.entries.clear();
+	}
+
+	public key(languages: string[], word: string): string {
+		return languages.join(',') + '\n' + word;
+	}
+}
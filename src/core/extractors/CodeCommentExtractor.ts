@@ -0,0 +1,46 @@
+'use strict';
+
+import { TextExtractor, WordToken, mask, maskCommon, tokenize, splitIdentifiers } from './TextExtractor';
+import { CodeSyntax } from './CodeSyntax';
+
+// Only words inside comments and string literals are checked; everything else in a
+// source file is code. Identifiers mentioned there are split into their words.
+export default class CodeCommentExtractor implements TextExtractor {
+	private pattern: RegExp;
+
+	constructor(syntax: CodeSyntax) {
+		// Comments and strings are matched in a single pass, so that a quote in a
+		// comment or a comment marker in a string is seen for what it is
+		let comments = syntax.comments.map(c => c.source).join('|');
+		let strings = syntax.strings.length > 0 ? syntax.strings.map(s => s.source).join('|') : '(?!)';
+		this.pattern = new RegExp('(' + comments + ')|(' + strings + ')', 'gm');
+	}
+
+	public extract(text: string): WordToken[] {
+		let regex = new RegExp(this.pattern.source, 'gm');
+		let pieces: string[] = [];
+		let lastIndex = 0;
+		let match: RegExpExecArray;
+
+		while ((match = regex.exec(text)) !== null) {
+			if (match[0].length == 0) {
+				regex.lastIndex++;
+				continue;
+			}
+
+			// blank out the code between comments and strings
+			pieces.push(text.substring(lastIndex, match.index).replace(/[^\r\n]/g, ' '));
+			pieces.push(match[1] !== undefined ? match[0] : this.maskStringCode(match[0]));
+			lastIndex = match.index + match[0].length;
+		}
+		pieces.push(text.substring(lastIndex).replace(/[^\r\n]/g, ' '));
+
+		return splitIdentifiers(tokenize(maskCommon(pieces.join(''))));
+	}
+
+	// Escape sequences and interpolated expressions inside a string are not prose
+	private maskStringCode(literal: string): string {
+		literal = mask(literal, /\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g);
+		return mask(literal, /\$\{[^}\r\n]*\}/g);
+	}
+}
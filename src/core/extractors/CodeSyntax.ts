@@ -0,0 +1,109 @@
+'use strict';
+
+// Where prose can appear in source code: comments and string literals
+export interface CodeSyntax {
+	comments: RegExp[];
+	strings: RegExp[];
+}
+
+const C_BLOCK_COMMENT: RegExp = /\/\*[\w\W]*?\*\//;
+const C_LINE_COMMENT: RegExp = /\/\/.*$/;
+const HASH_COMMENT: RegExp = /#.*$/;
+const DASH_COMMENT: RegExp = /--.*$/;
+const HTML_COMMENT: RegExp = /<!--[\w\W]*?-->/;
+
+const DOUBLE_QUOTED: RegExp = /"(?:[^"\\\r\n]|\\.)*"/;
+const SINGLE_QUOTED: RegExp = /'(?:[^'\\\r\n]|\\.)*'/;
+const BACKTICK_QUOTED: RegExp = /`(?:[^`\\]|\\[\w\W])*`/;
+const TRIPLE_DOUBLE_QUOTED: RegExp = /"""[\w\W]*?"""/;
+const TRIPLE_SINGLE_QUOTED: RegExp = /'''[\w\W]*?'''/;
+
+// Comment and string syntax keyed by document languageId. Patterns are tried in
+// order at each position, so longer delimiters come first. Single quotes are left
+// out where they mark characters or lifetimes rather than strings.
+export const CODE_SYNTAX: { languageIds: string[], syntax: CodeSyntax }[] = [
+	{
+		languageIds: ['c', 'cpp', 'csharp', 'java', 'kotlin', 'objective-c', 'rust', 'scala', 'swift'],
+		syntax: {
+			comments: [C_BLOCK_COMMENT, C_LINE_COMMENT],
+			strings: [TRIPLE_DOUBLE_QUOTED, DOUBLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['javascript', 'javascriptreact', 'typescript', 'typescriptreact', 'dart'],
+		syntax: {
+			comments: [C_BLOCK_COMMENT, C_LINE_COMMENT],
+			strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED]
+		}
+	},
+	{
+		languageIds: ['go'],
+		syntax: {
+			comments: [C_BLOCK_COMMENT, C_LINE_COMMENT],
+			strings: [DOUBLE_QUOTED, BACKTICK_QUOTED]
+		}
+	},
+	{
+		languageIds: ['php'],
+		syntax: {
+			comments: [C_BLOCK_COMMENT, C_LINE_COMMENT, HASH_COMMENT],
+			strings: [DOUBLE_QUOTED, SINGLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['python'],
+		syntax: {
+			comments: [HASH_COMMENT],
+			strings: [TRIPLE_DOUBLE_QUOTED, TRIPLE_SINGLE_QUOTED, DOUBLE_QUOTED, SINGLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['perl', 'powershell', 'r', 'ruby', 'shellscript', 'yaml'],
+		syntax: {
+			comments: [HASH_COMMENT],
+			strings: [DOUBLE_QUOTED, SINGLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['dockerfile', 'makefile', 'toml'],
+		syntax: {
+			comments: [HASH_COMMENT],
+			strings: []
+		}
+	},
+	{
+		languageIds: ['lua'],
+		syntax: {
+			comments: [/--\[\[[\w\W]*?\]\]/, DASH_COMMENT],
+			strings: [DOUBLE_QUOTED, SINGLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['sql'],
+		syntax: {
+			comments: [C_BLOCK_COMMENT, DASH_COMMENT],
+			strings: [SINGLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['haskell'],
+		syntax: {
+			comments: [/\{-[\w\W]*?-\}/, DASH_COMMENT],
+			strings: [DOUBLE_QUOTED]
+		}
+	},
+	{
+		languageIds: ['css', 'less', 'scss'],
+		syntax: {
+			comments: [C_BLOCK_COMMENT],
+			strings: []
+		}
+	},
+	{
+		languageIds: ['html', 'xml'],
+		syntax: {
+			comments: [HTML_COMMENT],
+			strings: []
+		}
+	}
+];
@@ -0,0 +1,17 @@
+'use strict';
+
+import { RuleTextExtractor } from './TextExtractor';
+
+export default class LatexExtractor extends RuleTextExtractor {
+	protected rules: RegExp[] = [
+		// remove comments, but not escaped percent signs
+		/(?<!\\)%.*$/gm,
+		// remove math
+		/\$\$[\w\W]*?\$\$/g,
+		/\$[^$\r\n]*\$/g,
+		// remove LaTeX commands along with their arguments
+		/\\\w*\{.*?\}/g,
+		// remove remaining LaTeX commands
+		/\\[a-zA-Z@]+\*?/g
+	];
+}
@@ -0,0 +1,21 @@
+'use strict';
+
+import { RuleTextExtractor } from './TextExtractor';
+
+export default class MarkdownExtractor extends RuleTextExtractor {
+	protected rules: RegExp[] = [
+		// remove pandoc yaml header
+		/^-{3}\r?\n[\w\W]*?\r?\n(\.{3}|-{3})[ \t]*(?=\r?\n|$)/,
+		// remove '&nbsp;'
+		/&nbsp;/g,
+		// remove citations
+		/\[-?@[A-Za-z:0-9\-]*\]/g,
+		/\{(\#|\.)[A-Za-z:0-9]+\}/g,
+		// remove code blocks
+		/^```[\w\W]*?^```[ \t]*$/gm,
+		// remove inline code blocks
+		/`[^`]+?`/g,
+		// remove image links
+		/\(.*\.(jpg|jpeg|png|md|gif|pdf|svg)\)/gi
+	];
+}
@@ -0,0 +1,7 @@
+'use strict';
+
+import { RuleTextExtractor } from './TextExtractor';
+
+export default class PlaintextExtractor extends RuleTextExtractor {
+	protected rules: RegExp[] = [];
+}
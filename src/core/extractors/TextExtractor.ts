@@ -0,0 +1,120 @@
+'use strict';
+
+// A single word found in a document and its offset in the text it was extracted from
+export interface WordToken {
+	word: string;
+	offset: number;
+}
+
+// Turns the text of a document into the words that should be spell checked
+export interface TextExtractor {
+	extract(text: string): WordToken[];
+}
+
+// Characters that can never be part of a word
+const WORD_PATTERN: RegExp = /[^\s`"!#$%&()*+,.\/:;<=>?@\[\]\\^_{|}\-~]+/g;
+
+// Quotation marks that may surround a word but are not part of it
+const LEADING_QUOTES: RegExp = /^['‘’]+/;
+const TRAILING_QUOTES: RegExp = /['‘’]+$/;
+
+// Text that is never prose, regardless of the document type
+const COMMON_RULES: RegExp[] = [
+	// remove web links
+	/(http|https|ftp|git)\S*/g,
+	// remove email addresses
+	/[a-zA-Z.\-0-9]+@[a-z.]+/g
+];
+
+// Blank out everything matched by `regex` while keeping line breaks, so offsets
+// of the remaining text stay the same
+export function mask(text: string, regex: RegExp): string {
+	return text.replace(regex, function (match: string) {
+		return match.replace(/[^\r\n]/g, ' ');
+	});
+}
+
+// Blank out text that is never prose, regardless of the document type
+export function maskCommon(text: string): string {
+	for (let rule of COMMON_RULES) {
+		text = mask(text, rule);
+	}
+
+	return text;
+}
+
+// Split masked text into words, keeping the offset of every word
+export function tokenize(text: string): WordToken[] {
+	let tokens: WordToken[] = [];
+	let regex = new RegExp(WORD_PATTERN.source, 'g');
+	let match: RegExpExecArray;
+
+	while ((match = regex.exec(text)) !== null) {
+		let word = match[0];
+		let offset = match.index;
+
+		// remove leading quotations
+		let leading = word.match(LEADING_QUOTES);
+		if (leading) {
+			word = word.substring(leading[0].length);
+			offset += leading[0].length;
+		}
+
+		// remove trailing quotations
+		word = word.replace(TRAILING_QUOTES, '');
+
+		// remove leading numbers
+		let numbers = word.match(/^[0-9]+/);
+		if (numbers) {
+			word = word.substring(numbers[0].length);
+			offset += numbers[0].length;
+		}
+
+		if (word.length > 0) {
+			tokens.push({ word: word, offset: offset });
+		}
+	}
+
+	return tokens;
+}
+
+// Parts of identifiers such as 'getUserName' or 'HTTPServer'
+const IDENTIFIER_PART: RegExp = /[A-ZÀ-ÖØ-Þ]+(?=[A-ZÀ-ÖØ-Þ][a-zß-öø-ÿ])|[A-ZÀ-ÖØ-Þ]?[a-zß-öø-ÿ']+|[A-ZÀ-ÖØ-Þ]+|[^A-ZÀ-ÖØ-Þa-zß-öø-ÿ']+/g;
+
+// Split camelCase and PascalCase words into the words they are made of, keeping
+// the offset of each part. snake_case is already split by tokenize.
+export function splitIdentifiers(tokens: WordToken[]): WordToken[] {
+	let parts: WordToken[] = [];
+
+	for (let token of tokens) {
+		// A lowercase letter followed by an uppercase one, or an acronym followed by a word
+		if (!/[a-zß-öø-ÿ][A-ZÀ-ÖØ-Þ]|[A-ZÀ-ÖØ-Þ]{2}[a-zß-öø-ÿ]/.test(token.word)) {
+			parts.push(token);
+			continue;
+		}
+
+		let regex = new RegExp(IDENTIFIER_PART.source, 'g');
+		let match: RegExpExecArray;
+		while ((match = regex.exec(token.word)) !== null) {
+			if (/[A-Za-zÀ-ÖØ-öø-ÿ]/.test(match[0])) {
+				parts.push({ word: match[0], offset: token.offset + match.index });
+			}
+		}
+	}
+
+	return parts;
+}
+
+// Base class for extractors that remove everything matched by a list of rules
+// before splitting the remaining text into words
+export abstract class RuleTextExtractor implements TextExtractor {
+	protected abstract rules: RegExp[];
+
+	public extract(text: string): WordToken[] {
+		for (let rule of this.rules) {
+			text = mask(text, rule);
+		}
+
+		return tokenize(maskCommon(text));
+	}
+}
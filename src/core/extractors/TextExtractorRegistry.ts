@@ -0,0 +1,44 @@
+'use strict';
+
+import { TextExtractor } from './TextExtractor';
+import MarkdownExtractor from './MarkdownExtractor';
+import LatexExtractor from './LatexExtractor';
+import PlaintextExtractor from './PlaintextExtractor';
+import CodeCommentExtractor from './CodeCommentExtractor';
+import { CODE_SYNTAX } from './CodeSyntax';
+
+// Text extractors keyed by document languageId. Document types without a
+// registered extractor are checked as plain text.
+export default class TextExtractorRegistry {
+	private extractors: Map<string, TextExtractor> = new Map();
+	private fallback: TextExtractor = new PlaintextExtractor();
+
+	public static createDefault(): TextExtractorRegistry {
+		let registry = new TextExtractorRegistry();
+
+		registry.register('markdown', new MarkdownExtractor());
+		registry.register('latex', new LatexExtractor());
+		registry.register('plaintext', new PlaintextExtractor());
+
+		// Source code: only comments and string literals
+		for (let code of CODE_SYNTAX) {
+			registry.register(code.languageIds, new CodeCommentExtractor(code.syntax));
+		}
+
+		return registry;
+	}
+
+	public register(languageIds: string | string[], extractor: TextExtractor): void {
+		if (!Array.isArray(languageIds)) {
+			languageIds = [languageIds];
+		}
+
+		for (let languageId of languageIds) {
+			this.extractors.set(languageId, extractor);
+		}
+	}
+
+	public get(languageId: string): TextExtractor {
+		return this.extractors.get(languageId) || this.fallback;
+	}
+}
@@ -0,0 +1,212 @@
+'use strict';
+
+import * as fs from 'fs';
+import { WorkerRequest, WorkerResponse, CheckRequest, SuggestRequest, DictionaryFiles, Suggestion, LoadFailure } from './protocol';
+let parentPort = require('worker_threads').parentPort;
+let sc = require('../../../../lib/hunspell-spellchecker/lib/index.js');
+
+// Number of words handled before yielding so that newer requests can cancel older ones
+const CHECK_CHUNK_SIZE: number = 500;
+const SUGGEST_CHUNK_SIZE: number = 5;
+
+interface LoadedDictionary {
+	files: DictionaryFiles;
+	checker: any;
+	// Dictionary entries replaced by custom words
+	replacedEntries: Map<string, any[]>;
+}
+
+let dictionaries: Map<string, LoadedDictionary> = new Map();
+
+// Id of the newest request for every document; older requests stop when they see it
+let latest: Map<string, number> = new Map();
+
+// Custom words in .dic format
+let customWords: string[] = [];
+
+function reply(response: WorkerResponse): void {
+	parentPort.postMessage(response);
+}
+
+function loadDictionary(files: DictionaryFiles): void {
+	let loaded = dictionaries.get(files.language);
+	if (loaded && loaded.files.aff == files.aff && loaded.files.dic == files.dic) {
+		return;
+	}
+
+	let checker = new sc();
+	checker.parse(
+		{
+			aff: fs.readFileSync(files.aff),
+			dic: fs.readFileSync(files.dic)
+		});
+
+	loaded = { files: files, checker: checker, replacedEntries: new Map() };
+	applyCustomWords(loaded);
+	dictionaries.set(files.language, loaded);
+}
+
+function getDictionaries(languages: string[]): LoadedDictionary[] {
+	return languages.map(language => {
+		if (!dictionaries.has(language)) {
+			throw 'Dictionary not loaded: ' + language;
+		}
+		return dictionaries.get(language);
+	});
+}
+
+// Add the custom words to a dictionary, first removing the ones added before
+function applyCustomWords(loaded: LoadedDictionary): void {
+	let dict = loaded.checker.dict;
+
+	loaded.replacedEntries.forEach((entries, word) => {
+		if (entries === undefined) {
+			delete dict.dictionaryTable[word];
+		}
+		else {
+			dict.dictionaryTable[word] = entries;
+		}
+	});
+	loaded.replacedEntries = new Map();
+
+	if (customWords.length == 0) {
+		return;
+	}
+
+	// The first line of a .dic file is the number of words
+	let table = dict._parseDIC(String(customWords.length) + '\n' + customWords.join('\n'));
+	Object.keys(table).forEach(word => {
+		// The table is a plain object, which custom words such as 'hasOwnProperty' can shadow
+		let existing = Object.prototype.hasOwnProperty.call(dict.dictionaryTable, word) ? dict.dictionaryTable[word] : undefined;
+		loaded.replacedEntries.set(word, existing);
+		dict.dictionaryTable[word] = (existing || []).concat(table[word]);
+	});
+}
+
+function check(languages: string[]): (word: string) => boolean {
+	let loaded = getDictionaries(languages);
+
+	return (word: string) => loaded.some(dictionary => dictionary.checker.check(word));
+}
+
+// Take suggestions from every dictionary in turn, so the best ones of each come first
+function suggest(languages: string[]): (word: string) => Suggestion[] {
+	let loaded = getDictionaries(languages);
+
+	return (word: string) => {
+		let lists: Suggestion[][] = loaded.map(dictionary => {
+			return dictionary.checker.suggest(word).map(s => ({ word: s, language: dictionary.files.language }));
+		});
+		let length = Math.max(0, ...lists.map(list => list.length));
+		let merged: Suggestion[] = [];
+
+		for (let i = 0; i < length; i++) {
+			for (let list of lists) {
+				if (i < list.length && !merged.some(s => s.word == list[i].word)) {
+					merged.push(list[i]);
+				}
+			}
+		}
+
+		return merged;
+	};
+}
+
+function isStale(request: CheckRequest | SuggestRequest): boolean {
+	return latest.get(request.document) !== request.id;
+}
+
+// Run the step created by `createStep` over the words in chunks, yielding between chunks
+function processInChunks<T>(request: CheckRequest | SuggestRequest, chunkSize: number, createStep: () => (word: string) => T, done: (results: T[]) => void): void {
+	let results: T[] = [];
+	let index = 0;
+	let step: (word: string) => T = null;
+
+	let next = () => {
+		if (isStale(request)) {
+			reply({ id: request.id, cancelled: true });
+			return;
+		}
+
+		try {
+			// Look up the dictionaries on the first chunk, after any earlier loads have finished
+			if (step === null) {
+				step = createStep();
+			}
+
+			let end = Math.min(index + chunkSize, request.words.length);
+			for (; index < end; index++) {
+				results.push(step(request.words[index]));
+			}
+		}
+		catch (e) {
+			latest.delete(request.document);
+			reply({ id: request.id, error: String(e) });
+			return;
+		}
+
+		if (index < request.words.length) {
+			setImmediate(next);
+		}
+		else {
+			latest.delete(request.document);
+			done(results);
+		}
+	};
+
+	next();
+}
+
+parentPort.on('message', (request: WorkerRequest) => {
+	switch (request.type) {
+		case 'load':
+			{
+				let failed: LoadFailure[] = [];
+
+				for (let files of request.dictionaries) {
+					try {
+						loadDictionary(files);
+					}
+					catch (e) {
+						failed.push({ language: files.language, error: e instanceof Error ? e.message : String(e) });
+					}
+				}
+
+				reply({ id: request.id, failed: failed });
+				break;
+			}
+		case 'words':
+			{
+				try {
+					customWords = request.words;
+					dictionaries.forEach(loaded => applyCustomWords(loaded));
+					reply({ id: request.id });
+				}
+				catch (e) {
+					reply({ id: request.id, error: String(e) });
+				}
+				break;
+			}
+		case 'check':
+			{
+				latest.set(request.document, request.id);
+				processInChunks(request, CHECK_CHUNK_SIZE, () => check(request.languages), results => {
+					reply({ id: request.id, misspelled: request.words.filter((word, i) => !results[i]) });
+				});
+				break;
+			}
+		case 'suggest':
+			{
+				latest.set(request.document, request.id);
+				processInChunks(request, SUGGEST_CHUNK_SIZE, () => suggest(request.languages), results => {
+					reply({ id: request.id, suggestions: results });
+				});
+				break;
+			}
+		case 'cancel':
+			{
+				latest.delete(request.document);
+				break;
+			}
+	}
+});
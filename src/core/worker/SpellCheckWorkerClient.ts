@@ -0,0 +1,169 @@
+'use strict';
+
+import * as path from 'path';
+import { LoadRequest, WordsRequest, CheckRequest, SuggestRequest, WorkerResponse, DictionaryFiles, Suggestion, LoadFailure } from './protocol';
+let Worker = require('worker_threads').Worker;
+
+interface PendingRequest {
+	document: string;
+	resolve: (response: WorkerResponse) => void;
+	reject: (error: Error) => void;
+}
+
+// Runs dictionary parsing, checking and suggestions in a worker thread so the
+// extension host is never blocked by hunspell. A worker that fails rejects its
+// pending requests and is replaced on the next request.
+export default class SpellCheckWorkerClient {
+	private worker = null;
+	private disposed: boolean = false;
+	private nextId: number = 1;
+	private pending: { [id: number]: PendingRequest } = {};
+	// What the worker was given, so a new worker can be given the same
+	private dictionaries: Map<string, DictionaryFiles> = new Map();
+	private words: string[] = null;
+
+	constructor() {
+		this.start();
+	}
+
+	// Parse dictionaries for later use. Resolves with the dictionaries that failed
+	// to load; the others can still be used.
+	public load(dictionaries: DictionaryFiles[]): Promise<LoadFailure[]> {
+		let id = this.nextId++;
+		return this.post({ type: 'load', id: id, dictionaries: dictionaries }, null).then(response => {
+			let failed = response.failed || [];
+			for (let files of dictionaries) {
+				if (!failed.some(failure => failure.language == files.language)) {
+					this.dictionaries.set(files.language, files);
+				}
+			}
+
+			return failed;
+		});
+	}
+
+	// Add words, given as lines in .dic format, to the dictionary in place of the
+	// previously added ones
+	public setWords(words: string[]): Promise<void> {
+		let id = this.nextId++;
+		this.words = words;
+		return this.post({ type: 'words', id: id, words: words }, null).then(() => undefined);
+	}
+
+	// Resolves with the words that none of the dictionaries for `languages` accept,
+	// or null if a newer request for the same document cancelled this one
+	public check(document: string, languages: string[], words: string[]): Promise<string[]> {
+		let id = this.nextId++;
+		return this.post({ type: 'check', id: id, document: document, languages: languages, words: words }, document).then(response => {
+			return response.cancelled ? null : response.misspelled;
+		});
+	}
+
+	// Resolves with the suggestions for each word, or null if a newer request for
+	// the same document cancelled this one
+	public suggest(document: string, languages: string[], words: string[]): Promise<Suggestion[][]> {
+		let id = this.nextId++;
+		return this.post({ type: 'suggest', id: id, document: document, languages: languages, words: words }, document).then(response => {
+			return response.cancelled ? null : response.suggestions;
+		});
+	}
+
+	public cancel(document: string): void {
+		this.cancelPending(document);
+		if (this.worker) {
+			this.worker.postMessage({ type: 'cancel', document: document });
+		}
+	}
+
+	public dispose(): void {
+		let worker = this.worker;
+
+		this.disposed = true;
+		this.worker = null;
+		this.rejectAll(new Error('Spell checker stopped'));
+		if (worker) {
+			worker.terminate();
+		}
+	}
+
+	// The dictionaries and words of a previous worker are sent before any request,
+	// and the worker handles messages in order
+	private start(): void {
+		let worker = new Worker(path.join(__dirname, 'SpellCheckWorker.js'));
+		worker.on('message', (response: WorkerResponse) => this.onResponse(response));
+		worker.on('error', (error: Error) => this.onStopped(worker, error));
+		worker.on('exit', (code: number) => this.onStopped(worker, new Error('The spell checker stopped with exit code ' + String(code))));
+		this.worker = worker;
+
+		let dictionaries = Array.from(this.dictionaries.values());
+		if (dictionaries.length > 0) {
+			worker.postMessage({ type: 'load', id: this.nextId++, dictionaries: dictionaries });
+		}
+		if (this.words) {
+			worker.postMessage({ type: 'words', id: this.nextId++, words: this.words });
+		}
+	}
+
+	private onStopped(worker, error: Error): void {
+		// An error is followed by an exit, and a replaced worker no longer matters
+		if (worker !== this.worker) {
+			return;
+		}
+
+		this.worker = null;
+		this.rejectAll(error);
+	}
+
+	private post(request: LoadRequest | WordsRequest | CheckRequest | SuggestRequest, document: string): Promise<WorkerResponse> {
+		if (this.disposed) {
+			return Promise.reject(new Error('Spell checker stopped'));
+		}
+
+		if (document !== null) {
+			this.cancelPending(document);
+		}
+
+		if (!this.worker) {
+			this.start();
+		}
+
+		return new Promise<WorkerResponse>((resolve, reject) => {
+			this.pending[request.id] = { document: document, resolve: resolve, reject: reject };
+			this.worker.postMessage(request);
+		});
+	}
+
+	// Older requests for the document resolve as cancelled right away; the worker
+	// stops working on them as soon as it sees the newer request
+	private cancelPending(document: string): void {
+		Object.keys(this.pending).forEach(id => {
+			let request = this.pending[id];
+			if (request.document === document) {
+				delete this.pending[id];
+				request.resolve({ id: Number(id), cancelled: true });
+			}
+		});
+	}
+
+	private onResponse(response: WorkerResponse): void {
+		let request = this.pending[response.id];
+		if (!request) {
+			return;
+		}
+		delete this.pending[response.id];
+
+		if (response.error) {
+			request.reject(new Error(response.error));
+		}
+		else {
+			request.resolve(response);
+		}
+	}
+
+	private rejectAll(error: Error): void {
+		Object.keys(this.pending).forEach(id => {
+			this.pending[id].reject(error);
+		});
+		this.pending = {};
+	}
+}
@@ -0,0 +1,76 @@
+'use strict';
+
+// Messages exchanged between the extension host and the spell check worker.
+// Every request except 'cancel' is answered with a WorkerResponse carrying the same id.
+
+// Paths of a hunspell .aff/.dic pair and the language it is for
+export interface DictionaryFiles {
+	language: string;
+	aff: string;
+	dic: string;
+}
+
+// Parse the dictionaries so that later requests can use them. Dictionaries that
+// are already loaded are not parsed again. Dictionaries that can't be loaded are
+// listed in the response's `failed`.
+export interface LoadRequest {
+	type: 'load';
+	id: number;
+	dictionaries: DictionaryFiles[];
+}
+
+// Add words, given as lines in .dic format, to every dictionary. They replace the
+// words from the previous request and are kept when other dictionaries are loaded.
+export interface WordsRequest {
+	type: 'words';
+	id: number;
+	words: string[];
+}
+
+// Find the words that none of the dictionaries for `languages` accept. A newer
+// check or suggest request for the same document cancels this one.
+export interface CheckRequest {
+	type: 'check';
+	id: number;
+	document: string;
+	languages: string[];
+	words: string[];
+}
+
+// Find suggestions for each of the words, merged across the dictionaries for `languages`
+export interface SuggestRequest {
+	type: 'suggest';
+	id: number;
+	document: string;
+	languages: string[];
+	words: string[];
+}
+
+// Stop all work for the document
+export interface CancelRequest {
+	type: 'cancel';
+	document: string;
+}
+
+export type WorkerRequest = LoadRequest | WordsRequest | CheckRequest | SuggestRequest | CancelRequest;
+
+// A suggested spelling and the language of the dictionary it came from
+export interface Suggestion {
+	word: string;
+	language: string;
+}
+
+// A dictionary that could not be loaded, and why
+export interface LoadFailure {
+	language: string;
+	error: string;
+}
+
+export interface WorkerResponse {
+	id: number;
+	error?: string;
+	cancelled?: boolean;
+	misspelled?: string[];
+	suggestions?: Suggestion[][];
+	failed?: LoadFailure[];
+}
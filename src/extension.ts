@@ -2,11 +2,23 @@
 
 import * as vscode from 'vscode';
 import SpellCheckerProvider from './features/SpellCheckerProvider';
+import SpellCheckerClient from './features/SpellCheckerClient';
+
+let languageClient: SpellCheckerClient = null;
 
 export function activate( context: vscode.ExtensionContext )
 {
-	let spellchecker = new SpellCheckerProvider();
-	spellchecker.activate( context );
+	// The language server is opt-in, and switching requires a reload
+	if( vscode.workspace.getConfiguration( 'spellchecker' ).get( 'languageServer', false ) )
+	{
+		languageClient = new SpellCheckerClient();
+		languageClient.activate( context );
+	}
+	else
+	{
+		let spellchecker = new SpellCheckerProvider();
+		spellchecker.activate( context );
+	}
 
 	// Log activate function
 	console.log( 'Spellchecker now active!' );
@@ -15,5 +27,8 @@ export function activate( context: vscode.ExtensionContext )
 // this method is called when your extension is deactivated
 export function deactivate()
 {
-	
+	if( languageClient )
+	{
+		return languageClient.deactivate();
+	}
 }
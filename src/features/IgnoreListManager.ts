@@ -0,0 +1,237 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import ProjectDictionary from '../core/ProjectDictionary';
+
+// Where an ignored word is stored. Folder settings and project dictionaries belong
+// to a workspace folder.
+export interface IgnoreScope {
+	kind: 'workspace' | 'global' | 'folder' | 'project';
+	folder?: vscode.WorkspaceFolder;
+	label: string;
+}
+
+interface WordQuickPickItem extends vscode.QuickPickItem {
+	word: string;
+	scope: IgnoreScope;
+}
+
+interface ScopeQuickPickItem extends vscode.QuickPickItem {
+	scope: IgnoreScope;
+}
+
+// Commands to review the ignored words of every scope, remove them or move them to
+// another scope, and to import and export word lists. `onDidChange` is called after
+// every change so the open documents can be checked again.
+export default class IgnoreListManager {
+	constructor(private getProjectDictionary: (folder: vscode.WorkspaceFolder) => ProjectDictionary, private onDidChange: () => void) {
+	}
+
+	public manageCommand(): Thenable<void> {
+		let items: WordQuickPickItem[] = [];
+		for (let scope of this.getScopes()) {
+			for (let word of this.getWords(scope).sort((a, b) => a.localeCompare(b))) {
+				items.push({ label: word, description: scope.label, word: word, scope: scope });
+			}
+		}
+
+		if (items.length == 0) {
+			vscode.window.showInformationMessage('No words are ignored.');
+			return Promise.resolve();
+		}
+
+		// Typing filters by word and by scope, e.g. 'user'
+		return vscode.window.showQuickPick(items, {
+			canPickMany: true,
+			matchOnDescription: true,
+			placeHolder: 'Select ignored words to remove or move to another scope'
+		}).then(selected => {
+			if (!selected || selected.length == 0) {
+				return undefined;
+			}
+
+			let actions: ScopeQuickPickItem[] = [{ label: 'Remove', scope: undefined }];
+			for (let scope of this.getScopes()) {
+				if (selected.some(item => item.scope.label != scope.label)) {
+					actions.push({ label: 'Move to ' + scope.label.toLowerCase(), scope: scope });
+				}
+			}
+
+			return vscode.window.showQuickPick(actions, { placeHolder: String(selected.length) + ' words selected' }).then(action => {
+				if (!action) {
+					return undefined;
+				}
+
+				let removed = this.getScopes().reduce((previous, scope) => {
+					let words = selected.filter(item => item.scope.label == scope.label && (!action.scope || scope.label != action.scope.label)).map(item => item.word);
+					return previous.then(() => this.removeWords(scope, words));
+				}, Promise.resolve());
+
+				return removed.then(() => {
+					if (action.scope) {
+						return this.addWords(action.scope, selected.map(item => item.word));
+					}
+				});
+			});
+		}).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Failed to update the ignored words: ' + error.message);
+		});
+	}
+
+	// Add the words of a word list, one per line, to a scope
+	public importCommand(): Thenable<void> {
+		let words: string[];
+
+		return vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: 'Import',
+			filters: { 'Word lists': ['txt', 'dic'], 'All files': ['*'] }
+		}).then(uris => {
+			if (!uris || uris.length == 0) {
+				return undefined;
+			}
+
+			return vscode.workspace.fs.readFile(uris[0]);
+		}).then(content => {
+			if (!content) {
+				return undefined;
+			}
+
+			words = ProjectDictionary.parseWords(Buffer.from(content).toString('utf-8'));
+			if (words.length == 0) {
+				vscode.window.showWarningMessage('The file doesn\'t contain any words.');
+				return undefined;
+			}
+
+			return this.pickScope('Import ' + String(words.length) + ' words to');
+		}).then(scope => {
+			if (!scope) {
+				return undefined;
+			}
+
+			return this.addWords(scope, words);
+		}).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Failed to import the word list: ' + error.message);
+		});
+	}
+
+	// Save the ignored words of the selected scopes as a word list, one per line
+	public exportCommand(): Thenable<void> {
+		let scopes: ScopeQuickPickItem[] = this.getScopes().map(scope => {
+			return { label: scope.label, description: String(this.getWords(scope).length) + ' words', picked: true, scope: scope };
+		});
+
+		let words: string[];
+
+		return vscode.window.showQuickPick(scopes, { canPickMany: true, placeHolder: 'Export the ignored words of' }).then(selected => {
+			if (!selected || selected.length == 0) {
+				return undefined;
+			}
+
+			words = [];
+			for (let item of selected) {
+				words = words.concat(this.getWords(item.scope).filter(word => words.indexOf(word) < 0));
+			}
+			words.sort((a, b) => a.localeCompare(b));
+
+			let folder = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri : undefined;
+			return vscode.window.showSaveDialog({
+				defaultUri: folder ? vscode.Uri.joinPath(folder, 'ignored-words.txt') : undefined,
+				filters: { 'Word lists': ['txt'] }
+			});
+		}).then(uri => {
+			if (!uri) {
+				return;
+			}
+
+			return vscode.workspace.fs.writeFile(uri, Buffer.from(words.map(word => word + '\n').join(''), 'utf-8'));
+		}).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Failed to export the ignored words: ' + error.message);
+		});
+	}
+
+	// Workspace settings need an open folder, and project dictionaries a path. Only
+	// multi-root workspaces have settings for each folder.
+	private getScopes(): IgnoreScope[] {
+		let folders = vscode.workspace.workspaceFolders || [];
+		let multiRoot = folders.length > 1;
+		let scopes: IgnoreScope[] = [];
+
+		if (folders.length > 0) {
+			scopes.push({ kind: 'workspace', label: 'Workspace settings' });
+		}
+		scopes.push({ kind: 'global', label: 'User settings' });
+
+		for (let folder of folders) {
+			if (multiRoot) {
+				scopes.push({ kind: 'folder', folder: folder, label: 'Folder settings (' + folder.name + ')' });
+			}
+			if (this.getProjectDictionary(folder)) {
+				scopes.push({ kind: 'project', folder: folder, label: multiRoot ? 'Project dictionary (' + folder.name + ')' : 'Project dictionary' });
+			}
+		}
+
+		return scopes;
+	}
+
+	private pickScope(placeHolder: string): Thenable<IgnoreScope> {
+		let items: ScopeQuickPickItem[] = this.getScopes().map(scope => ({ label: scope.label, scope: scope }));
+
+		return vscode.window.showQuickPick(items, { placeHolder: placeHolder }).then(item => item ? item.scope : undefined);
+	}
+
+	private getWords(scope: IgnoreScope): string[] {
+		if (scope.kind == 'project') {
+			let dictionary = this.getProjectDictionary(scope.folder);
+			return dictionary ? dictionary.getWords() : [];
+		}
+
+		let inspection = vscode.workspace.getConfiguration('spellchecker', scope.folder ? scope.folder.uri : undefined).inspect<string[]>('ignoreWordsList');
+		let values = { workspace: inspection.workspaceValue, global: inspection.globalValue, folder: inspection.workspaceFolderValue };
+		let words = values[scope.kind];
+
+		return words instanceof Array ? words.concat() : [];
+	}
+
+	private addWords(scope: IgnoreScope, words: string[]): Thenable<void> {
+		let current = this.getWords(scope);
+		let added = words.filter((word, index) => current.indexOf(word) < 0 && words.indexOf(word) == index);
+
+		if (added.length == 0) {
+			return Promise.resolve();
+		}
+
+		if (scope.kind == 'project') {
+			this.getProjectDictionary(scope.folder).addWords(added);
+			this.onDidChange();
+			return Promise.resolve();
+		}
+
+		return this.updateSettings(scope, current.concat(added));
+	}
+
+	private removeWords(scope: IgnoreScope, words: string[]): Thenable<void> {
+		if (words.length == 0) {
+			return Promise.resolve();
+		}
+
+		if (scope.kind == 'project') {
+			this.getProjectDictionary(scope.folder).removeWords(words);
+			this.onDidChange();
+			return Promise.resolve();
+		}
+
+		return this.updateSettings(scope, this.getWords(scope).filter(word => words.indexOf(word) < 0));
+	}
+
+	private updateSettings(scope: IgnoreScope, words: string[]): Thenable<void> {
+		let targets = {
+			workspace: vscode.ConfigurationTarget.Workspace,
+			global: vscode.ConfigurationTarget.Global,
+			folder: vscode.ConfigurationTarget.WorkspaceFolder
+		};
+		let configuration = vscode.workspace.getConfiguration('spellchecker', scope.folder ? scope.folder.uri : undefined);
+
+		return configuration.update('ignoreWordsList', words, targets[scope.kind]).then(() => this.onDidChange());
+	}
+}
@@ -0,0 +1,244 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SpellSettings } from '../core/Settings';
+import { LegacySettings, MigrationPlan, readLegacySettings, planMigration, describeMigration, formatMigrationDiff } from '../core/SettingsMigration';
+
+type MigrationAction = 'delete' | 'keep' | 'preview' | 'ignore';
+
+// The decision for a legacy file, remembered in the workspace state
+type MigrationDecision = 'migrated' | 'ignored';
+
+interface MigrationQuickPickItem extends vscode.QuickPickItem {
+	action: MigrationAction;
+}
+
+interface FolderQuickPickItem extends vscode.QuickPickItem {
+	folder: vscode.WorkspaceFolder;
+}
+
+// Moves the settings of legacy .vscode/spellchecker.json files into settings.json.
+// Each file is offered for migration once; until it is migrated, `onLegacySettings`
+// is called with its settings so they still apply to the documents of its folder.
+export default class LegacySettingsMigration {
+	private static stateKey: string = 'spellchecker.legacySettingsMigration';
+	// Files offered for migration in this session
+	private prompted: { [filename: string]: boolean } = {};
+	private outputChannel: vscode.OutputChannel;
+
+	// `getSettings` gives the settings of a folder without its legacy file
+	constructor(private state: vscode.Memento, private getSettings: (folder: vscode.WorkspaceFolder) => SpellSettings, private onLegacySettings: (folder: vscode.WorkspaceFolder, settings: Partial<SpellSettings>) => void) {
+	}
+
+	public dispose(): void {
+		if (this.outputChannel) {
+			this.outputChannel.dispose();
+		}
+	}
+
+	// Load the legacy files of the workspace folders, offering to migrate those that
+	// weren't offered before
+	public checkFolders(): void {
+		for (let folder of vscode.workspace.workspaceFolders || []) {
+			let filename = this.getFilename(folder);
+
+			if (!fs.existsSync(filename) || this.prompted[filename] || this.getDecision(filename) == 'migrated') {
+				continue;
+			}
+			this.prompted[filename] = true;
+
+			let legacy = this.read(folder);
+			if (!legacy) {
+				continue;
+			}
+
+			this.onLegacySettings(folder, legacy.settings);
+			if (this.getDecision(filename) != 'ignored') {
+				this.prompt(folder, legacy);
+			}
+		}
+	}
+
+	// Offer to migrate a legacy file, even if it was ignored or migrated before
+	public migrateCommand(): Thenable<void> {
+		return this.pickFolder('Select the folder whose \'spellchecker.json\' to migrate').then(folder => {
+			if (!folder) {
+				return undefined;
+			}
+
+			let legacy = this.read(folder);
+			if (legacy) {
+				return this.prompt(folder, legacy);
+			}
+		});
+	}
+
+	// A dry run: show what migrating each legacy file would change, without changing it
+	public dryRunCommand(): void {
+		let folders = (vscode.workspace.workspaceFolders || []).filter(folder => fs.existsSync(this.getFilename(folder)));
+
+		if (folders.length == 0) {
+			vscode.window.showInformationMessage('No \'.vscode/spellchecker.json\' was found in the workspace.');
+			return;
+		}
+
+		if (!this.outputChannel) {
+			this.outputChannel = vscode.window.createOutputChannel('Spell Checker');
+		}
+		this.outputChannel.clear();
+
+		for (let folder of folders) {
+			this.outputChannel.appendLine('Migrating \'' + this.getFilename(folder) + '\' (dry run):');
+
+			let legacy = this.read(folder);
+			if (legacy) {
+				for (let line of describeMigration(this.getPlan(folder, legacy))) {
+					this.outputChannel.appendLine('  ' + line);
+				}
+			}
+			this.outputChannel.appendLine('');
+		}
+
+		this.outputChannel.show(true);
+	}
+
+	private prompt(folder: vscode.WorkspaceFolder, legacy: LegacySettings): Thenable<void> {
+		let filename = this.getFilename(folder);
+		let items: MigrationQuickPickItem[] = [
+			{ label: 'Migrate and delete \'spellchecker.json\'', action: 'delete' },
+			{ label: 'Migrate and keep \'spellchecker.json\'', action: 'keep' },
+			{ label: 'Preview changes', description: 'Show what would be added to \'settings.json\'', action: 'preview' },
+			{ label: 'Don\'t migrate', description: 'The settings will still be loaded', action: 'ignore' }
+		];
+		let options: vscode.QuickPickOptions = {
+			placeHolder: 'Settings of \'' + folder.name + '\' are now included in \'settings.json\'. What would you like to do?',
+			ignoreFocusOut: true
+		};
+
+		return vscode.window.showQuickPick(items, options).then(item => {
+			// Dismissing the prompt keeps the file's settings for this session
+			if (!item) {
+				return undefined;
+			}
+
+			switch (item.action) {
+				case 'preview':
+					return this.preview(folder, legacy).then(() => this.prompt(folder, legacy));
+				case 'ignore':
+					this.onLegacySettings(folder, legacy.settings);
+					return this.setDecision(filename, 'ignored');
+				default:
+					return this.migrate(folder, legacy, item.action == 'delete');
+			}
+		}).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Failed to migrate \'' + filename + '\': ' + error.message);
+		});
+	}
+
+	private preview(folder: vscode.WorkspaceFolder, legacy: LegacySettings): Thenable<void> {
+		let plan = this.getPlan(folder, legacy);
+		let content = formatMigrationDiff(plan, this.getTargetName(folder));
+
+		if (plan.unknown.length > 0) {
+			content += '\n# Not spellchecker settings, skipped: ' + plan.unknown.join(', ') + '\n';
+		}
+
+		return vscode.workspace.openTextDocument({ language: 'diff', content: content }).then(document => {
+			return vscode.window.showTextDocument(document, { preview: true, preserveFocus: true });
+		}).then(() => undefined);
+	}
+
+	// The settings are written one after another, as each update rewrites settings.json
+	private migrate(folder: vscode.WorkspaceFolder, legacy: LegacySettings, deleteFile: boolean): Thenable<void> {
+		let filename = this.getFilename(folder);
+		let configuration = vscode.workspace.getConfiguration('spellchecker', folder.uri);
+		let target = this.getTarget();
+
+		let updated = this.getPlan(folder, legacy).changes.reduce((previous, change) => {
+			return previous.then(() => configuration.update(change.key, change.migrated, target));
+		}, Promise.resolve());
+
+		return updated.then(() => {
+			if (deleteFile) {
+				fs.unlinkSync(filename);
+			}
+
+			return this.setDecision(filename, 'migrated');
+		}).then(() => {
+			// The settings now come from settings.json
+			this.onLegacySettings(folder, undefined);
+		});
+	}
+
+	private read(folder: vscode.WorkspaceFolder): LegacySettings {
+		try {
+			return readLegacySettings(this.getFilename(folder));
+		}
+		catch (error) {
+			vscode.window.showErrorMessage('Failed to read \'' + this.getFilename(folder) + '\': ' + error.message);
+			return null;
+		}
+	}
+
+	private getPlan(folder: vscode.WorkspaceFolder, legacy: LegacySettings): MigrationPlan {
+		let configuration = vscode.workspace.getConfiguration('spellchecker', folder.uri);
+		let folderTarget = this.getTarget() == vscode.ConfigurationTarget.WorkspaceFolder;
+		let current = {};
+
+		Object.keys(legacy.settings).forEach(key => {
+			let inspection = configuration.inspect(key);
+			if (inspection) {
+				current[key] = folderTarget ? inspection.workspaceFolderValue : inspection.workspaceValue;
+			}
+		});
+
+		// Lists are merged with the values that apply, as they are while the file is loaded
+		return planMigration(legacy, current, this.getSettings(folder));
+	}
+
+	// A multi-root workspace has settings for each folder
+	private getTarget(): vscode.ConfigurationTarget {
+		let folders = vscode.workspace.workspaceFolders || [];
+
+		return folders.length > 1 ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+	}
+
+	private getTargetName(folder: vscode.WorkspaceFolder): string {
+		if (this.getTarget() == vscode.ConfigurationTarget.WorkspaceFolder || !vscode.workspace.workspaceFile) {
+			return folder.name + '/.vscode/settings.json';
+		}
+
+		return path.basename(vscode.workspace.workspaceFile.fsPath);
+	}
+
+	private pickFolder(placeHolder: string): Thenable<vscode.WorkspaceFolder> {
+		let items: FolderQuickPickItem[] = (vscode.workspace.workspaceFolders || [])
+			.filter(folder => fs.existsSync(this.getFilename(folder)))
+			.map(folder => ({ label: folder.name, description: folder.uri.fsPath, folder: folder }));
+
+		if (items.length == 0) {
+			vscode.window.showInformationMessage('No \'.vscode/spellchecker.json\' was found in the workspace.');
+			return Promise.resolve(undefined);
+		}
+
+		if (items.length == 1) {
+			return Promise.resolve(items[0].folder);
+		}
+
+		return vscode.window.showQuickPick(items, { placeHolder: placeHolder }).then(item => item ? item.folder : undefined);
+	}
+
+	private getFilename(folder: vscode.WorkspaceFolder): string {
+		return path.join(folder.uri.fsPath, '.vscode', 'spellchecker.json');
+	}
+
+	private getDecision(filename: string): MigrationDecision {
+		return this.state.get<MigrationDecision>(LegacySettingsMigration.stateKey + ':' + filename);
+	}
+
+	private setDecision(filename: string, decision: MigrationDecision): Thenable<void> {
+		return this.state.update(LegacySettingsMigration.stateKey + ':' + filename, decision);
+	}
+}
@@ -0,0 +1,218 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind, ExecuteCommandRequest, ExecuteCommandParams } from 'vscode-languageclient';
+import ProjectDictionary from '../core/ProjectDictionary';
+import { getDefaultSettings, resolvePath } from '../core/Settings';
+import { resolveFolderSettings } from '../core/FolderSettings';
+import {
+	InitializationOptions, IgnoreWordRequest, IgnoreWordParams, LegacySettingsNotification, LegacySettingsParams,
+	AddToDictionaryCommand, CheckDocumentCommand, CheckAllAnywayCommand
+} from '../server/protocol';
+import IgnoreListManager from './IgnoreListManager';
+import LegacySettingsMigration from './LegacySettingsMigration';
+
+// Runs the spell checker as a language server, which publishes the diagnostics and
+// provides the quick fixes and hovers. The client saves the words ignored in the
+// server and offers to migrate legacy spellchecker.json files, whose settings it
+// sends to the server until they are migrated. Commands that check documents or add
+// words run in the server; the workspace check, report, language picker and removing
+// words from the project dictionary aren't available, see package.json.
+export default class SpellCheckerClient {
+	private client: LanguageClient;
+
+	public activate(context: vscode.ExtensionContext): void {
+		let serverModule = context.asAbsolutePath(path.join('out', 'src', 'server', 'main.js'));
+		let serverOptions: ServerOptions = {
+			run: { module: serverModule, transport: TransportKind.stdio },
+			debug: { module: serverModule, transport: TransportKind.stdio, options: { execArgv: ['--nolazy', '--inspect=6010'] } }
+		};
+
+		let configuration = vscode.workspace.getConfiguration('spellchecker');
+		let documentTypes: string[] = configuration.get('documentTypes', ['markdown', 'latex', 'plaintext']);
+		let projectDictionary: string = configuration.get('projectDictionary', '');
+		let initializationOptions: InitializationOptions = { ignoreWord: true, legacySettings: true };
+
+		let clientOptions: LanguageClientOptions = {
+			documentSelector: documentTypes.map(language => ({ scheme: 'file', language: language })),
+			synchronize: {
+				configurationSection: 'spellchecker',
+				fileEvents: projectDictionary ? vscode.workspace.createFileSystemWatcher('**/' + path.basename(projectDictionary)) : undefined
+			},
+			initializationOptions: initializationOptions
+		};
+
+		this.client = new LanguageClient('spellchecker', 'Spell Checker', serverOptions, clientOptions);
+		context.subscriptions.push(this.client.start());
+
+		// Without the legacy file, a folder's settings are those of settings.json
+		let migration = new LegacySettingsMigration(context.workspaceState, folder => {
+			return resolveFolderSettings(vscode.workspace.getConfiguration('spellchecker', folder.uri));
+		}, (folder, settings) => {
+			let params: LegacySettingsParams = { folder: folder.uri.toString(), settings: settings };
+			this.client.sendNotification(LegacySettingsNotification, params);
+		});
+		context.subscriptions.push(migration);
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.migrateLegacySettings', migration.migrateCommand, migration));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.previewLegacySettingsMigration', migration.dryRunCommand, migration));
+
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.showDocumentType', this.showDocumentTypeCommand, this));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.checkDocument', (textDocument?: vscode.TextDocument) => this.checkDocument(CheckDocumentCommand, textDocument)));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.checkAllAnyway', (textDocument?: vscode.TextDocument) => this.checkDocument(CheckAllAnywayCommand, textDocument)));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.addToProjectDictionary', this.addToProjectDictionaryCommand, this));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.editDictionary', this.editDictionaryCommand, this));
+
+		// The server notices changed settings and project dictionaries by itself
+		let ignoreListManager = new IgnoreListManager(folder => this.getProjectDictionary(folder), () => undefined);
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.manageIgnoredWords', ignoreListManager.manageCommand, ignoreListManager));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.importIgnoredWords', ignoreListManager.importCommand, ignoreListManager));
+		context.subscriptions.push(vscode.commands.registerCommand('spellchecker.exportIgnoredWords', ignoreListManager.exportCommand, ignoreListManager));
+
+		this.client.onReady().then(() => {
+			this.client.onRequest(IgnoreWordRequest, (params: IgnoreWordParams) => this.ignoreWord(params));
+			migration.checkFolders();
+		});
+	}
+
+	public deactivate(): Thenable<void> {
+		if (!this.client) {
+			return undefined;
+		}
+
+		return this.client.stop();
+	}
+
+	private executeServerCommand(command: string, args: any[]): Thenable<void> {
+		let params: ExecuteCommandParams = { command: command, arguments: args };
+
+		return this.client.onReady().then(() => this.client.sendRequest(ExecuteCommandRequest.type, params)).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Spell checker command failed: ' + error.message);
+		});
+	}
+
+	private showDocumentTypeCommand(): void {
+		let editor = vscode.window.activeTextEditor;
+		if (editor) {
+			vscode.window.showInformationMessage('The documentType for the current file is \'' + editor.document.languageId + '\'.');
+		}
+		else {
+			vscode.window.showErrorMessage('documentType not found.');
+		}
+	}
+
+	// The active document, unless a command passes one
+	private checkDocument(command: string, textDocument?: vscode.TextDocument): Thenable<void> {
+		if (!textDocument && vscode.window.activeTextEditor) {
+			textDocument = vscode.window.activeTextEditor.document;
+		}
+
+		if (!textDocument) {
+			return Promise.resolve();
+		}
+
+		return this.executeServerCommand(command, [textDocument.uri.toString()]);
+	}
+
+	// The server adds the word to the project dictionary of the folder of `uri`, which
+	// defaults to the active document
+	private addToProjectDictionaryCommand(word?: string, uri?: string): Thenable<void> {
+		let editor = vscode.window.activeTextEditor;
+		if (!uri && editor) {
+			uri = editor.document.uri.toString();
+		}
+
+		// Without a word, use the selection or the word under the cursor
+		if (!word && editor) {
+			let range: vscode.Range = editor.selection;
+			if (range.isEmpty) {
+				range = editor.document.getWordRangeAtPosition(editor.selection.active);
+			}
+			if (range) {
+				word = editor.document.getText(range).trim().replace(/’/g, '\'');
+			}
+		}
+
+		let input: Thenable<string> = word ? Promise.resolve(word) : vscode.window.showInputBox({ prompt: 'Word to add to the project dictionary' });
+
+		return input.then(value => {
+			if (value) {
+				return this.executeServerCommand(AddToDictionaryCommand, [value, uri || '']);
+			}
+		});
+	}
+
+	private editDictionaryCommand(): Thenable<void> {
+		let editor = vscode.window.activeTextEditor;
+		let folder = editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined;
+		if (!folder && vscode.workspace.workspaceFolders) {
+			folder = vscode.workspace.workspaceFolders[0];
+		}
+
+		let dictionary = folder ? this.getProjectDictionary(folder) : null;
+		if (!dictionary) {
+			vscode.window.showErrorMessage('Open a folder to use a project dictionary.');
+			return Promise.resolve();
+		}
+
+		try {
+			dictionary.ensureExists();
+		}
+		catch (e) {
+			vscode.window.showErrorMessage('Failed to create the project dictionary: ' + e.message);
+			return Promise.resolve();
+		}
+
+		return vscode.workspace.openTextDocument(dictionary.filename).then(textDocument => {
+			return vscode.window.showTextDocument(textDocument);
+		}).then(() => undefined);
+	}
+
+	// Read when needed, as the server's copy isn't available here
+	private getProjectDictionary(folder: vscode.WorkspaceFolder): ProjectDictionary {
+		let setting: string = vscode.workspace.getConfiguration('spellchecker', folder.uri).get('projectDictionary', getDefaultSettings().projectDictionary);
+		let filename = resolvePath(setting, folder.uri.fsPath);
+		if (!filename) {
+			return null;
+		}
+
+		let dictionary = new ProjectDictionary(filename);
+		if (dictionary.loadError) {
+			vscode.window.showWarningMessage(dictionary.loadError);
+		}
+
+		return dictionary;
+	}
+
+	// The word is saved to the settings of the document's folder in a multi-root
+	// workspace, and to the workspace or user settings otherwise
+	private ignoreWord(params: IgnoreWordParams): Thenable<void> {
+		let folder = params.uri ? vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(params.uri)) : undefined;
+		let folders = vscode.workspace.workspaceFolders || [];
+		let configuration = vscode.workspace.getConfiguration('spellchecker', folder ? folder.uri : undefined);
+		let inspection = configuration.inspect<string[]>('ignoreWordsList');
+
+		let target: vscode.ConfigurationTarget;
+		let current: string[];
+		if (folder && folders.length > 1) {
+			target = vscode.ConfigurationTarget.WorkspaceFolder;
+			current = inspection.workspaceFolderValue;
+		}
+		else if (folders.length > 0) {
+			target = vscode.ConfigurationTarget.Workspace;
+			current = inspection.workspaceValue;
+		}
+		else {
+			target = vscode.ConfigurationTarget.Global;
+			current = inspection.globalValue;
+		}
+
+		let words = Array.isArray(current) ? current.concat() : [];
+		if (words.indexOf(params.word) >= 0) {
+			return Promise.resolve();
+		}
+		words.push(params.word);
+
+		return configuration.update('ignoreWordsList', words, target);
+	}
+}
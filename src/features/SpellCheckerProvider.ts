@@ -3,121 +3,485 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import * as vscode from 'vscode';
+import CheckScheduler from '../core/CheckScheduler';
+import SpellingDiagnostic from './SpellingDiagnostic';
+import IgnoreListManager from './IgnoreListManager';
+import LegacySettingsMigration from './LegacySettingsMigration';
+import SpellChecker from '../core/SpellChecker';
+import TextExtractorRegistry from '../core/extractors/TextExtractorRegistry';
+import ProjectDictionary from '../core/ProjectDictionary';
+import InlineDirectives from '../core/InlineDirectives';
+import SpellingReport from '../core/SpellingReport';
+import FileFilter from '../core/FileFilter';
+import { Suggestion } from '../core/worker/protocol';
+import { NO_LIMITS, limitErrors, getCollapsedCounts, describeHidden } from '../core/ProblemLimits';
+import { getFilesGlob } from '../core/FileTypes';
+import { resolveFolderSettings, getFolderIgnoreWords, getIgnoreRegExp } from '../core/FolderSettings';
+import { ResolvedLanguage, resolveDocumentLanguage } from '../core/LanguageResolver';
+import { DictionaryInfo, getBundledDictionaries, getDictionaryForFile, findDictionaries } from '../core/DictionaryDiscovery';
+import { SpellSettings, getDefaultSettings, applySettings, getLanguages, getSeverityName, resolvePath } from '../core/Settings';
 let mkdirp = require('mkdirp');
-let sc = require('../../../lib/hunspell-spellchecker/lib/index.js');
-let jsonMinify = require('jsonminify');
 
 // Toggle debug output
 let DEBUG: boolean = false;
 
-interface SpellSettings {
-	language: string,
-	ignoreWordsList: string[];
-	documentTypes: string[];
-	ignoreRegExp: string[];
-	ignoreFileExtensions: string[];
-	ignoreFilenames: string[];
-	checkInterval: number;
-	suggestionSeverity: string;
+// Most files that a workspace check looks at
+const MAX_WORKSPACE_FILES: number = 10000;
+
+// How a check ended: a newer check of the same document cancels an older one
+type CheckOutcome = 'completed' | 'cancelled' | 'failed';
+
+interface LanguageQuickPickItem extends vscode.QuickPickItem {
+	language: string;
 }
 
-export default class SpellCheckerProvider implements vscode.CodeActionProvider {
-	private static suggestCommandId: string = 'SpellChecker.fixSuggestionCodeAction';
+export default class SpellCheckerProvider implements vscode.CodeActionProvider, vscode.HoverProvider {
 	private static ignoreCommandId: string = 'SpellChecker.ignoreCodeAction';
 	private static alwaysIgnoreCommandId: string = 'SpellChecker.alwaysIgnoreCodeAction';
-	private suggestCommand: vscode.Disposable;
+	private static replaceCommandId: string = 'SpellChecker.replaceCodeAction';
 	private ignoreCommand: vscode.Disposable;
 	private alwaysIgnoreCommand: vscode.Disposable;
+	private replaceCommand: vscode.Disposable;
 	private diagnosticCollection: vscode.DiagnosticCollection;
-	private problemCollection = {};
-	private diagnosticMap = {};
-	private DICT = undefined;
+	private diagnosticMap: { [uri: string]: SpellingDiagnostic[] } = {};
+	private dirtyLines: { [uri: string]: { start: number, end: number } } = {};
 	private settings: SpellSettings;
-	private static CONFIGFILE: string = '';
-	private SpellChecker = new sc();
+	private SpellChecker: SpellChecker;
 	private extensionRoot: string;
-	private lastcheck: number = -1;
-	private timer = null;
-	private timerTextDocument: vscode.TextDocument = null;
-	private availableLanguages = [
-		{
-			description: 'English US',
-			filename: 'en_US'
-		},
-		{
-			description: 'English UK (-ize/Oxford)',
-			filename: 'en_GB-ize'
-		},
-		{
-			description: 'English UK (-ise)',
-			filename: 'en_GB-ise'
-		},
-		{
-			description: 'Spanish',
-			filename: 'es_ANY'
-		},
-		{
-			description: 'French',
-			filename: 'fr'
-		},
-		{
-			description: 'Greek',
-			filename: 'el_GR'
-		},
-		{
-			description: 'Swedish',
-			filename: 'sv_SE'
-		}
-	];
+	private scheduler: CheckScheduler;
+	// Project dictionaries and their watchers by workspace folder, see getFolderKey
+	private projectDictionaries: { [folder: string]: ProjectDictionary } = {};
+	private projectDictionaryWatchers: { [folder: string]: vscode.FileSystemWatcher } = {};
+	// Settings of each workspace folder, and those of legacy spellchecker.json files
+	// that weren't migrated
+	private folderSettings: { [folder: string]: SpellSettings } = {};
+	private legacySettings: { [folder: string]: object } = {};
+	private documentLanguages: { [uri: string]: ResolvedLanguage } = {};
+	private documentDirectives: { [uri: string]: InlineDirectives } = {};
+	private statusBarItem: vscode.StatusBarItem;
+	private problemsStatusBarItem: vscode.StatusBarItem;
+	// Number of spelling errors found in each document, and how many of them aren't shown
+	private documentCounts: { [uri: string]: { total: number, hidden: number } } = {};
+	// Documents whose errors are all shown after 'Check all anyway'
+	private unlimitedDocuments: { [uri: string]: boolean } = {};
+	private dictionariesReady: Promise<void> = Promise.resolve();
+	private workspaceReport: SpellingReport = null;
+	// Files checked by the workspace check, whose diagnostics are kept after closing,
+	// with their document type
+	private workspaceFiles: { [uri: string]: string } = {};
+	// Files being opened by the workspace check, which checks them itself
+	private scanning: { [uri: string]: boolean } = {};
+	private fileFilters: { [root: string]: FileFilter } = {};
+	private gitignoreWatcher: vscode.FileSystemWatcher;
+	private ignoreListManager: IgnoreListManager;
+	private legacySettingsMigration: LegacySettingsMigration;
+	// Code action and hover providers for the current document types
+	private providerRegistrations: vscode.Disposable[] = [];
 
 	public activate(context: vscode.ExtensionContext) {
 		let subscriptions: vscode.Disposable[] = context.subscriptions;
 
 		this.extensionRoot = context.extensionPath;
 
+		this.SpellChecker = new SpellChecker();
+		this.SpellChecker.onLanguageFailure = (language, message) => vscode.window.showErrorMessage(message);
 		this.settings = this.getSettings();
+		this.updateIgnoreRegExp();
+		this.refreshDictionaries();
 		this.setLanguage(this.settings.language);
 
 		vscode.commands.registerCommand('spellchecker.showDocumentType', this.showDocumentType, this);
 		vscode.commands.registerCommand('spellchecker.checkDocument', this.doSpellCheck, this);
+		vscode.commands.registerCommand('spellchecker.checkWorkspace', this.checkWorkspaceCommand, this);
+		vscode.commands.registerCommand('spellchecker.exportReport', this.exportReportCommand, this);
 		vscode.commands.registerCommand('spellchecker.setLanguage', this.setLanguageCommand, this);
+		vscode.commands.registerCommand('spellchecker.addToProjectDictionary', this.addToProjectDictionaryCommand, this);
+		vscode.commands.registerCommand('spellchecker.removeFromDictionary', this.removeFromDictionaryCommand, this);
+		vscode.commands.registerCommand('spellchecker.editDictionary', this.editDictionaryCommand, this);
+		vscode.commands.registerCommand('spellchecker.checkAllAnyway', this.checkAllAnywayCommand, this);
+
+		this.ignoreListManager = new IgnoreListManager(folder => this.projectDictionaries[folder.uri.toString()] || null, () => this.ignoreListChanged());
+		vscode.commands.registerCommand('spellchecker.manageIgnoredWords', this.ignoreListManager.manageCommand, this.ignoreListManager);
+		vscode.commands.registerCommand('spellchecker.importIgnoredWords', this.ignoreListManager.importCommand, this.ignoreListManager);
+		vscode.commands.registerCommand('spellchecker.exportIgnoredWords', this.ignoreListManager.exportCommand, this.ignoreListManager);
 
-		this.suggestCommand = vscode.commands.registerCommand(SpellCheckerProvider.suggestCommandId, this.fixSuggestionCodeAction, this);
 		this.ignoreCommand = vscode.commands.registerCommand(SpellCheckerProvider.ignoreCommandId, this.ignoreCodeAction, this);
 		this.alwaysIgnoreCommand = vscode.commands.registerCommand(SpellCheckerProvider.alwaysIgnoreCommandId, this.alwaysIgnoreCodeAction, this);
+		this.replaceCommand = vscode.commands.registerCommand(SpellCheckerProvider.replaceCommandId, this.replaceCodeAction, this);
 		subscriptions.push(this);
 		this.diagnosticCollection = vscode.languages.createDiagnosticCollection('Spelling');
+		this.loadProjectDictionaries();
+		this.updateIgnoreWords();
+		this.scheduler = new CheckScheduler(
+			(uri: string) => {
+				let textDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() == uri);
+				if (textDocument) {
+					return this.doIncrementalSpellCheck(textDocument);
+				}
+			},
+			(uri: string) => vscode.window.visibleTextEditors.some(e => e.document.uri.toString() == uri));
+
+		// The filters cache .gitignore rules
+		this.gitignoreWatcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
+		this.gitignoreWatcher.onDidCreate(() => this.fileFilters = {});
+		this.gitignoreWatcher.onDidChange(() => this.fileFilters = {});
+		this.gitignoreWatcher.onDidDelete(() => this.fileFilters = {});
+		subscriptions.push(this.gitignoreWatcher);
+
+		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+		this.statusBarItem.command = 'spellchecker.setLanguage';
+		subscriptions.push(this.statusBarItem);
+		this.problemsStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+		subscriptions.push(this.problemsStatusBarItem);
+		vscode.window.onDidChangeActiveTextEditor(this.updateStatusBar, this, subscriptions);
+		this.updateStatusBar();
 
 		vscode.workspace.onDidOpenTextDocument(this.doAutoSpellCheck, this, subscriptions);
 		vscode.workspace.onDidCloseTextDocument((textDocument) => {
-			this.diagnosticCollection.delete(textDocument.uri);
+			if (!this.workspaceFiles[textDocument.uri.toString()]) {
+				this.diagnosticCollection.delete(textDocument.uri);
+			}
+			delete this.diagnosticMap[textDocument.uri.toString()];
+			delete this.dirtyLines[textDocument.uri.toString()];
+			delete this.documentLanguages[textDocument.uri.toString()];
+			delete this.documentDirectives[textDocument.uri.toString()];
+			delete this.documentCounts[textDocument.uri.toString()];
+			delete this.unlimitedDocuments[textDocument.uri.toString()];
+			this.scheduler.cancel(textDocument.uri.toString());
+			this.SpellChecker.cancel(textDocument.uri.toString());
 		}, null, subscriptions);
 
 		vscode.workspace.onDidSaveTextDocument(this.doAutoSpellCheck, this, subscriptions);
 
 		vscode.workspace.onDidChangeTextDocument(this.doDiffSpellCheck, this, subscriptions);
 
-		vscode.workspace.onDidChangeConfiguration(this.settingsChanged, this);
+		vscode.workspace.onDidChangeConfiguration(this.settingsChanged, this, subscriptions);
+		vscode.workspace.onDidChangeWorkspaceFolders(this.workspaceFoldersChanged, this, subscriptions);
 
-		// Register code actions provider
-		for (let i = 0; i < this.settings.documentTypes.length; i++) {
-			vscode.languages.registerCodeActionsProvider(this.settings.documentTypes[i], this);
-		}
+		this.registerProviders();
+
+		this.legacySettingsMigration = new LegacySettingsMigration(context.workspaceState, folder => this.getSettings(folder), (folder, settings) => this.legacySettingsChanged(folder, settings));
+		vscode.commands.registerCommand('spellchecker.migrateLegacySettings', this.legacySettingsMigration.migrateCommand, this.legacySettingsMigration);
+		vscode.commands.registerCommand('spellchecker.previewLegacySettingsMigration', this.legacySettingsMigration.dryRunCommand, this.legacySettingsMigration);
+		subscriptions.push(this.legacySettingsMigration);
+		this.legacySettingsMigration.checkFolders();
 
 		console.log("Finished activation");
 	}
 
 	public dispose(): void {
+		Object.keys(this.projectDictionaryWatchers).forEach(key => this.projectDictionaryWatchers[key].dispose());
+		this.scheduler.dispose();
+		this.SpellChecker.dispose();
 		this.diagnosticCollection.clear();
 		this.diagnosticCollection.dispose();
-		this.suggestCommand.dispose();
 		this.ignoreCommand.dispose();
 		this.alwaysIgnoreCommand.dispose();
+		this.replaceCommand.dispose();
+		this.providerRegistrations.forEach(registration => registration.dispose());
+	}
+
+	// Register the code action and hover providers for the document types, replacing
+	// the registrations for the previous ones
+	private registerProviders(): void {
+		this.providerRegistrations.forEach(registration => registration.dispose());
+		this.providerRegistrations = [];
+
+		for (let i = 0; i < this.settings.documentTypes.length; i++) {
+			this.providerRegistrations.push(vscode.languages.registerCodeActionsProvider(this.settings.documentTypes[i], this, {
+				providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+			}));
+			this.providerRegistrations.push(vscode.languages.registerHoverProvider(this.settings.documentTypes[i], this));
+		}
 	}
 
-	public settingsChanged(): void {
+	// Legacy settings files of removed folders no longer apply, and added folders can
+	// have one
+	private workspaceFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent): void {
+		for (let folder of event.removed) {
+			delete this.legacySettings[folder.uri.toString()];
+		}
+
+		this.settingsChanged();
+		this.legacySettingsMigration.checkFolders();
+	}
+
+	public settingsChanged(event?: vscode.ConfigurationChangeEvent): void {
+		if (event && !event.affectsConfiguration('spellchecker')) {
+			return;
+		}
+
+		let documentTypes = this.settings.documentTypes;
+
 		this.settings = this.getSettings();
-		this.setLanguage(this.settings.language);
+		this.folderSettings = {};
+		this.updateIgnoreRegExp();
+		this.fileFilters = {};
+		this.refreshDictionaries();
+		this.loadProjectDictionaries();
+
+		if (documentTypes.join(',') != this.settings.documentTypes.join(',')) {
+			this.registerProviders();
+		}
+
+		// Languages, ignored words and limits can all change the results
+		Promise.all([this.setLanguage(this.settings.language), this.updateIgnoreWords()]).then(() => {
+			this.dropExcludedDocuments();
+			this.recheckOpenDocuments();
+		});
+	}
+
+	// Forget the diagnostics of files that the settings no longer include, whether
+	// they are open or were found by the workspace check
+	private dropExcludedDocuments(): void {
+		let included = (uri: vscode.Uri, languageId: string): boolean => {
+			return this.settings.documentTypes.indexOf(languageId) >= 0 && this.isFileIncluded(uri);
+		};
+
+		for (let textDocument of vscode.workspace.textDocuments) {
+			let uri = textDocument.uri.toString();
+			if (this.diagnosticMap[uri] && !included(textDocument.uri, textDocument.languageId)) {
+				this.diagnosticCollection.delete(textDocument.uri);
+				delete this.diagnosticMap[uri];
+				delete this.dirtyLines[uri];
+				delete this.documentCounts[uri];
+				delete this.workspaceFiles[uri];
+				this.scheduler.cancel(uri);
+				this.SpellChecker.cancel(uri);
+			}
+		}
+
+		Object.keys(this.workspaceFiles).forEach(uri => {
+			let parsed = vscode.Uri.parse(uri);
+			if (!included(parsed, this.workspaceFiles[uri])) {
+				this.diagnosticCollection.delete(parsed);
+				delete this.workspaceFiles[uri];
+			}
+		});
+
+		this.updateStatusBar();
+	}
+
+	// Every workspace folder has its own ignored words: those of its settings and of
+	// its project dictionary. Without folders, the window's settings are used.
+	private updateIgnoreWords(): Promise<void> {
+		let folders: { [folder: string]: string[] } = {};
+		let workspaceFolders = vscode.workspace.workspaceFolders || [];
+
+		if (workspaceFolders.length == 0) {
+			folders[''] = getFolderIgnoreWords(this.settings, this.projectDictionaries[''] || null);
+		}
+		for (let folder of workspaceFolders) {
+			let key = folder.uri.toString();
+			folders[key] = getFolderIgnoreWords(this.getFolderSettings(folder), this.projectDictionaries[key] || null);
+		}
+
+		return this.SpellChecker.setFolderIgnoreWords(folders).catch(error => {
+			console.log('Failed to add ignored words to the dictionary: ' + error.message);
+		});
+	}
+
+	// The expressions apply to every folder, including those of legacy settings files
+	private updateIgnoreRegExp(): void {
+		let folders = (vscode.workspace.workspaceFolders || []).map(folder => this.getFolderSettings(folder));
+
+		let invalid = this.SpellChecker.setIgnoreRegExp(getIgnoreRegExp([this.settings].concat(folders)));
+		if (invalid.length > 0) {
+			vscode.window.showErrorMessage('Invalid regular expressions in \'spellchecker.ignoreRegExp\' are skipped: ' + invalid.join(', '));
+		}
+	}
+
+	// Words were removed from or added to an ignore list. The folder settings are
+	// read again, with the lists of legacy files merged in as in settingsChanged.
+	private ignoreListChanged(): void {
+		this.settings.ignoreWordsList = this.getSettings().ignoreWordsList;
+		this.folderSettings = {};
+		this.updateIgnoreWords().then(() => this.recheckOpenDocuments());
+	}
+
+	// Check every open document again, visible ones first, one at a time
+	private recheckOpenDocuments(): void {
+		vscode.workspace.textDocuments.forEach(textDocument => {
+			let uri = textDocument.uri.toString();
+
+			if (this.diagnosticMap[uri]) {
+				this.dirtyLines[uri] = { start: 0, end: textDocument.lineCount - 1 };
+				this.scheduler.schedule(uri, 0);
+			}
+			// Documents of a type that was just added haven't been checked yet
+			else if (this.settings.checkInterval >= 0 && vscode.window.visibleTextEditors.some(editor => editor.document === textDocument)) {
+				this.doSpellCheck(textDocument);
+			}
+		});
+	}
+
+	// Load the project dictionary of every workspace folder, named by the folder's
+	// projectDictionary setting, and reload it whenever the file changes
+	private loadProjectDictionaries(): void {
+		let roots = (vscode.workspace.workspaceFolders || []).map(folder => {
+			return { key: folder.uri.toString(), filename: resolvePath(this.getFolderSettings(folder).projectDictionary, folder.uri.fsPath) };
+		});
+
+		// Without folders, only absolute paths can be used
+		if (roots.length == 0) {
+			roots.push({ key: '', filename: resolvePath(this.settings.projectDictionary, '') });
+		}
+
+		let dictionaries: { [folder: string]: ProjectDictionary } = {};
+		let watchers: { [folder: string]: vscode.FileSystemWatcher } = {};
+
+		for (let root of roots) {
+			if (!root.filename) {
+				continue;
+			}
+
+			let existing = this.projectDictionaries[root.key];
+			if (existing && existing.filename == root.filename) {
+				dictionaries[root.key] = existing;
+				watchers[root.key] = this.projectDictionaryWatchers[root.key];
+			}
+			else {
+				dictionaries[root.key] = new ProjectDictionary(root.filename);
+				watchers[root.key] = this.watchProjectDictionary(dictionaries[root.key]);
+				if (dictionaries[root.key].loadError) {
+					vscode.window.showWarningMessage(dictionaries[root.key].loadError);
+				}
+			}
+		}
+
+		Object.keys(this.projectDictionaryWatchers).forEach(key => {
+			if (watchers[key] !== this.projectDictionaryWatchers[key]) {
+				this.projectDictionaryWatchers[key].dispose();
+			}
+		});
+
+		this.projectDictionaries = dictionaries;
+		this.projectDictionaryWatchers = watchers;
+	}
+
+	private watchProjectDictionary(dictionary: ProjectDictionary): vscode.FileSystemWatcher {
+		let reload = () => {
+			let before = dictionary.getWords().join('\n');
+			dictionary.load();
+			if (dictionary.loadError) {
+				vscode.window.showWarningMessage(dictionary.loadError);
+			}
+			if (dictionary.getWords().join('\n') != before) {
+				this.updateIgnoreWords();
+				this.recheckOpenDocuments();
+			}
+		};
+
+		let watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(path.dirname(dictionary.filename), path.basename(dictionary.filename)));
+		watcher.onDidCreate(reload);
+		watcher.onDidChange(reload);
+		watcher.onDidDelete(reload);
+
+		return watcher;
+	}
+
+	// The project dictionary of the folder of `uri`, or of the active document.
+	// Documents outside the workspace folders use the first folder's.
+	private getProjectDictionary(uri?: vscode.Uri): ProjectDictionary {
+		if (!uri && vscode.window.activeTextEditor) {
+			uri = vscode.window.activeTextEditor.document.uri;
+		}
+
+		let key = uri ? this.getFolderKey(uri) : '';
+		if (key == '' && !this.projectDictionaries.hasOwnProperty('')) {
+			let folders = vscode.workspace.workspaceFolders;
+			key = folders && folders.length > 0 ? folders[0].uri.toString() : '';
+		}
+
+		return this.projectDictionaries[key] || null;
+	}
+
+	// Identifies the workspace folder of `uri` for the per-folder settings, ignored
+	// words and project dictionaries; '' outside the workspace folders
+	private getFolderKey(uri: vscode.Uri): string {
+		let folder = vscode.workspace.getWorkspaceFolder(uri);
+
+		return folder ? folder.uri.toString() : '';
+	}
+
+	// Settings for documents in `folder`: the settings.json values that apply to the
+	// folder, and those of a legacy spellchecker.json in the folder
+	private getFolderSettings(folder: vscode.WorkspaceFolder): SpellSettings {
+		let key = folder.uri.toString();
+
+		if (!this.folderSettings.hasOwnProperty(key)) {
+			this.folderSettings[key] = resolveFolderSettings(vscode.workspace.getConfiguration('spellchecker', folder.uri), this.legacySettings[key]);
+		}
+
+		return this.folderSettings[key];
+	}
+
+	private getDocumentSettings(uri: vscode.Uri): SpellSettings {
+		let folder = vscode.workspace.getWorkspaceFolder(uri);
+
+		return folder ? this.getFolderSettings(folder) : this.settings;
+	}
+
+	// Paths in the settings may start with '~' or be relative to the workspace folder
+	private resolveWorkspacePath(filename: string): string {
+		let folders = vscode.workspace.workspaceFolders;
+
+		return resolvePath(filename, folders && folders.length > 0 ? folders[0].uri.fsPath : '');
+	}
+
+	// Find dictionaries in the folders of the dictionaryPaths setting and .aff/.dic
+	// pairs anywhere in the workspace. Those take precedence over bundled
+	// dictionaries with the same name.
+	private refreshDictionaries(): Promise<void> {
+		let user: DictionaryInfo[] = [];
+		for (let directory of this.settings.dictionaryPaths) {
+			let resolved = this.resolveWorkspacePath(directory);
+			if (resolved) {
+				user = user.concat(findDictionaries(resolved, 'user'));
+			}
+		}
+		let bundled = getBundledDictionaries(this.extensionRoot);
+
+		this.SpellChecker.setDictionaries(user.concat(bundled));
+
+		this.dictionariesReady = Promise.resolve(vscode.workspace.findFiles('**/*.dic', '**/node_modules/**', 200)).then(uris => {
+			let workspace = uris
+				.map(uri => getDictionaryForFile(uri.fsPath, 'workspace'))
+				.filter(dictionary => dictionary !== null);
+			this.SpellChecker.setDictionaries(user.concat(workspace, bundled));
+		}, error => {
+			console.log('Failed to search the workspace for dictionaries: ' + error.message);
+		});
+
+		return this.dictionariesReady;
+	}
+
+	// Whether a file is checked according to the include, exclude, useGitignore,
+	// ignoreFileExtensions and ignoreFilenames settings
+	private isFileIncluded(uri: vscode.Uri): boolean {
+		let folder = vscode.workspace.getWorkspaceFolder(uri);
+		let root = folder ? folder.uri.fsPath : '';
+
+		if (!this.fileFilters.hasOwnProperty(root)) {
+			this.fileFilters[root] = new FileFilter(root, folder ? this.getFolderSettings(folder) : this.settings);
+		}
+
+		return this.fileFilters[root].matches(uri.fsPath);
+	}
+
+	// Whether a document should be spell checked at all
+	private shouldCheck(textDocument: vscode.TextDocument): boolean {
+		// Is this a private URI? (VSCode started having "private:" versions of non-plaintext documents with languageId = 'plaintext')
+		if (textDocument.uri.scheme != "file") {
+			return false;
+		}
+
+		// Is this a document type that we should check?
+		if (this.settings.documentTypes.indexOf(textDocument.languageId) < 0) {
+			return false;
+		}
+
+		return this.isFileIncluded(textDocument.uri);
 	}
 
 	private showDocumentType(): void {
@@ -130,514 +494,930 @@ export default class SpellCheckerProvider implements vscode.CodeActionProvider {
 	}
 
 	private setLanguageCommand(): void {
-		let qpOptions: vscode.QuickPickOptions =
+		let qpOptions: vscode.QuickPickOptions & { canPickMany: true } =
 		{
-			placeHolder: 'Select one of the available languages:'
+			placeHolder: 'Select one or more of the available languages:',
+			canPickMany: true
 		};
-		let options = [];
+		let current = getLanguages(this.settings.language);
+
+		this.refreshDictionaries().then(() => {
+			let options: LanguageQuickPickItem[] = this.SpellChecker.getAvailableLanguages().map(language => {
+				let dictionary = this.SpellChecker.getDictionary(language);
+				return {
+					label: dictionary.description,
+					description: dictionary.language,
+					detail: dictionary.source == 'bundled' ? undefined : dictionary.dic,
+					picked: current.indexOf(dictionary.language) >= 0,
+					language: dictionary.language
+				};
+			});
 
-		this.availableLanguages.forEach(function (value) {
-			options.push(value.description + ' (' + value.filename + ')');
-		});
+			return vscode.window.showQuickPick(options, qpOptions);
+		}).then((val: LanguageQuickPickItem[]) => {
+			if (!val || val.length == 0) {
+				return;
+			}
 
-		vscode.window.showQuickPick(options, qpOptions).then(val => {
-			let language = val.match(/\(.*\)/g)[0];
-			language = language.substring(1, language.length - 1);
-			this.setLanguage(language);
+			let languages = val.map(item => item.language);
+			return this.setLanguage(languages.length == 1 ? languages[0] : languages).then(() => this.recheckOpenDocuments());
 		});
 	}
 
-	private doDiffSpellCheck(event: vscode.TextDocumentChangeEvent) {
-		// Is this a document type that we should check?
-		if (this.settings.documentTypes.indexOf(event.document.languageId) < 0) {
-			return;
+	// The language of a document is chosen by, in order: an inline directive, the
+	// `lang` key of the front matter, the folder's settings and the default language
+	private resolveLanguages(textDocument: vscode.TextDocument): ResolvedLanguage {
+		let available = this.SpellChecker.getAvailableLanguages();
+		let resolved = resolveDocumentLanguage(textDocument.getText(), available);
+		if (resolved) {
+			return resolved;
 		}
 
-		// Is this a file extension that we should ignore?
-		if (this.settings.ignoreFileExtensions.indexOf(path.extname(event.document.fileName)) >= 0) {
-			return;
+		let inspection = vscode.workspace.getConfiguration('spellchecker', textDocument.uri).inspect<string | string[]>('language');
+		if (inspection && inspection.workspaceFolderValue) {
+			return { languages: getLanguages(inspection.workspaceFolderValue), source: 'folder' };
 		}
 
-		// Is this a filename that should be ignored?
-		if (this.settings.ignoreFilenames.indexOf(path.basename(event.document.fileName)) >= 0) {
-			return
+		let legacy = this.legacySettings[this.getFolderKey(textDocument.uri)];
+		if (legacy && legacy['language']) {
+			return { languages: getLanguages(legacy['language']), source: 'folder' };
 		}
 
-		// If checkInterval is negative, the document will not be automatically checked
-		if (this.settings.checkInterval < 0) {
+		return { languages: getLanguages(this.settings.language), source: 'default' };
+	}
+
+	// Make sure the worker has parsed the dictionaries for `languages`, once the
+	// workspace has been searched for dictionaries. Resolves with the languages that
+	// can be used.
+	private ensureLanguages(languages: string[]): Promise<string[]> {
+		return this.dictionariesReady.then(() => this.SpellChecker.ensureLanguages(languages));
+	}
+
+	private updateStatusBar(): void {
+		let editor = vscode.window.activeTextEditor;
+		if (!editor || this.settings.documentTypes.indexOf(editor.document.languageId) < 0) {
+			this.statusBarItem.hide();
+			this.problemsStatusBarItem.hide();
 			return;
 		}
 
-		if (Date.now() - this.lastcheck > this.settings.checkInterval) {
-			clearTimeout(this.timer);
-			this.doSpellCheck(event.document);
-		}
-		else {
-			clearTimeout(this.timer);
-			this.timerTextDocument = event.document;
-			this.timer = setTimeout(this.doSpellCheck.bind(this), 2 * this.settings.checkInterval);
-		}
-	}
+		let resolved = this.resolveLanguages(editor.document);
+		let sources = {
+			directive: 'set by a directive in the document',
+			frontMatter: 'set by the document\'s front matter',
+			folder: 'set by the folder settings',
+			default: 'default'
+		};
 
-	private doAutoSpellCheck(textDocument: vscode.TextDocument) {
-		// If checkInterval is negative, the document will not be automatically checked
-		if (this.settings.checkInterval < 0) {
+		this.statusBarItem.text = '$(book) ' + resolved.languages.join(', ');
+		this.statusBarItem.tooltip = 'Spell checker language (' + sources[resolved.source] + ')';
+		this.statusBarItem.show();
+
+		let counts = this.documentCounts[editor.document.uri.toString()];
+		if (!counts) {
+			this.problemsStatusBarItem.hide();
 			return;
 		}
 
-		this.doSpellCheck(textDocument);
+		this.problemsStatusBarItem.text = '$(pencil) ' + String(counts.total);
+		if (counts.hidden > 0) {
+			this.problemsStatusBarItem.tooltip = String(counts.total) + ' spelling errors, ' + String(counts.hidden) + ' not shown. Click to show all.';
+			this.problemsStatusBarItem.command = 'spellchecker.checkAllAnyway';
+		}
+		else {
+			this.problemsStatusBarItem.tooltip = String(counts.total) + ' spelling errors';
+			this.problemsStatusBarItem.command = 'workbench.actions.view.problems';
+		}
+		this.problemsStatusBarItem.show();
 	}
 
-	private doSpellCheck(textDocument: vscode.TextDocument) {
-		if (textDocument == null || textDocument.fileName == null) {
-			if (this.timerTextDocument == null) {
-				textDocument = vscode.window.activeTextEditor.document;
-			}
-			else {
-				textDocument = this.timerTextDocument;
-			}
+	// Keep the diagnostics within the spellchecker.maxProblems and
+	// spellchecker.maxDuplicateProblems limits, and remember how many were left out.
+	// Later occurrences of a word are collapsed into its last shown diagnostic.
+	private applyLimits(textDocument: vscode.TextDocument, diagnostics: SpellingDiagnostic[]): SpellingDiagnostic[] {
+		let uri = textDocument.uri.toString();
+		let limited = limitErrors(diagnostics, this.unlimitedDocuments[uri] ? NO_LIMITS : this.getDocumentSettings(textDocument.uri));
+		let collapsed = getCollapsedCounts(limited);
+		let shown = limited.shown.map((diagnostic, i) => collapsed[i] > 0 ? diagnostic.withCollapsed(collapsed[i]) : diagnostic);
+
+		let previous = this.documentCounts[uri];
+		this.documentCounts[uri] = { total: diagnostics.length, hidden: limited.hidden };
+		if (vscode.window.activeTextEditor && vscode.window.activeTextEditor.document === textDocument) {
+			this.updateStatusBar();
 		}
 
-		if (textDocument == null || textDocument.fileName == null) {
-			return;
+		// Tell once, not after every edit, and not for each file of a workspace check
+		if (limited.hidden > 0 && !(previous && previous.hidden > 0) && !this.scanning[uri]) {
+			let message = describeHidden(limited.hidden, diagnostics.length, path.basename(textDocument.fileName)) + '.';
+			vscode.window.showInformationMessage(message, 'Check all anyway').then(choice => {
+				if (choice) {
+					this.checkAllAnywayCommand(textDocument);
+				}
+			});
 		}
 
-		if (DEBUG) {
-			console.log("documentType for " + textDocument.fileName + " is " + textDocument.languageId);
+		return shown;
+	}
+
+	// Show every spelling error of a document, ignoring the limits until it is closed
+	private checkAllAnywayCommand(textDocument?: vscode.TextDocument): Promise<void> {
+		if (!textDocument && vscode.window.activeTextEditor) {
+			textDocument = vscode.window.activeTextEditor.document;
 		}
 
-		if (DEBUG) {
-			console.log(textDocument);
+		if (!textDocument) {
+			return Promise.resolve();
 		}
 
-		// Is this a private URI? (VSCode started having "private:" versions of non-plaintext documents with languageId = 'plaintext')
-		if (textDocument.uri.scheme != "file") {
+		this.unlimitedDocuments[textDocument.uri.toString()] = true;
+		return this.doSpellCheck(textDocument).then(() => undefined);
+	}
+
+	private doDiffSpellCheck(event: vscode.TextDocumentChangeEvent) {
+		if (!this.shouldCheck(event.document)) {
 			return;
 		}
 
-		// Is this a document type that we should check?
-		if (this.settings.documentTypes.indexOf(textDocument.languageId) < 0) {
+		// If checkInterval is negative, the document will not be automatically checked
+		if (this.settings.checkInterval < 0) {
 			return;
 		}
 
-		// Is this a file extension that we should ignore?
-		if (this.settings.ignoreFileExtensions.indexOf(path.extname(textDocument.fileName)) >= 0) {
+		// Move existing diagnostics along with the edits and remember which lines need checking
+		this.trackChanges(event);
+
+		this.scheduler.schedule(event.document.uri.toString(), this.settings.checkInterval);
+	}
+
+	private trackChanges(event: vscode.TextDocumentChangeEvent): void {
+		let uri = event.document.uri.toString();
+		let diagnostics: SpellingDiagnostic[] = this.diagnosticMap[uri];
+
+		// The document hasn't been checked yet, so there is nothing to update
+		if (!diagnostics) {
 			return;
 		}
 
-		// Is this a filename that should be ignored?
-		if (this.settings.ignoreFilenames.indexOf(path.basename(textDocument.fileName)) >= 0) {
-			return
-		}
+		for (let change of event.contentChanges) {
+			let start = change.range.start.line;
+			let oldEnd = change.range.end.line;
+			let newEnd = start + change.text.split('\n').length - 1;
+			let delta = newEnd - oldEnd;
+
+			// Drop diagnostics on the edited lines and shift the ones below them
+			diagnostics = diagnostics.filter(diag => diag.range.end.line < start || diag.range.start.line > oldEnd);
+			if (delta != 0) {
+				diagnostics = diagnostics.map(diag => {
+					if (diag.range.start.line <= oldEnd) {
+						return diag;
+					}
 
-		let startTime = new Date().getTime();
-		let lastSeconds: number = 0;
-		if (DEBUG) {
-			console.log('Starting spell check on ' + textDocument.fileName);
-		}
+					return diag.withRange(new vscode.Range(diag.range.start.translate(delta), diag.range.end.translate(delta)));
+				});
+			}
 
-		let diagnostics: vscode.Diagnostic[] = [];
+			// Lines inside the edited range map onto the inserted text
+			let shiftLine = (line: number): number => {
+				return line > oldEnd ? line + delta : Math.min(line, newEnd);
+			};
+
+			let dirty = this.dirtyLines[uri];
+			if (dirty) {
+				this.dirtyLines[uri] = {
+					start: Math.min(shiftLine(dirty.start), start),
+					end: Math.max(shiftLine(dirty.end), newEnd)
+				};
+			}
+			else {
+				this.dirtyLines[uri] = { start: start, end: newEnd };
+			}
+		}
 
-		let textoriginal = textDocument.getText();
+		this.diagnosticMap[uri] = diagnostics;
+		this.diagnosticCollection.set(event.document.uri, diagnostics);
+	}
 
-		// Change to common line endings
-		textoriginal = textoriginal.replace(/\r?\n/g, '\n');
-		let text = textoriginal;
+	// Re-check only the paragraphs that changed since the last check
+	private doIncrementalSpellCheck(textDocument: vscode.TextDocument): Promise<void> {
+		let uri = textDocument.uri.toString();
 
-		if (DEBUG) {
-			console.log('Original text');
-			console.log(text);
-			console.log('------------------------------------------');
+		if (!this.diagnosticMap[uri]) {
+			return this.doSpellCheck(textDocument).then(() => undefined);
 		}
 
-		text = this.processUserIgnoreRegex(text);
-		if (DEBUG) {
-			console.log('Processed User Regex');
-			console.log(text);
-			console.log('------------------------------------------');
+		let dirty = this.dirtyLines[uri];
+		if (!dirty) {
+			return Promise.resolve();
 		}
 
-		// remove pandoc yaml header
-		text = text.replace(/-{3}(.|\n)*\n(\.{3}|\-{3})/g, ' ');
-		if (DEBUG) {
-			console.log('Remove yaml header');
-			console.log(text);
-			console.log('------------------------------------------');
+		// Existing diagnostics are for other languages if the edit changed the language
+		let previous = this.documentLanguages[uri];
+		if (!previous || previous.languages.join(',') != this.resolveLanguages(textDocument).languages.join(',')) {
+			return this.doSpellCheck(textDocument).then(() => undefined);
 		}
-		// remove '&nbsp;'
-		text = text.replace(/&nbsp;/g, ' ');
-		if (DEBUG) {
-			console.log('Remove `&nbsp;`');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		// Hidden errors outside the edited lines would have to be counted again
+		let counts = this.documentCounts[uri];
+		if (!counts || counts.hidden > 0) {
+			return this.doSpellCheck(textDocument).then(() => undefined);
 		}
-		// remove citations
-		text = text.replace(/\[-?@[A-Za-z:0-9\-]*\]/g, ' ');
-		text = text.replace(/\{(\#|\.)[A-Za-z:0-9]+\}/g, ' ');
-		if (DEBUG) {
-			console.log('Remove citations');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		// Directives can enable or disable text outside the edited lines
+		let directives = this.documentDirectives[uri];
+		if (!directives || !directives.equals(InlineDirectives.parse(textDocument.getText()))) {
+			return this.doSpellCheck(textDocument).then(() => undefined);
 		}
-		// remove code blocks
-		text = text.replace(/^(```\s*)(\w+)?(\s*[\w\W]+?\n*)(```\s*)\n*$/gm, ' ');
-		if (DEBUG) {
-			console.log('Remove code blocks');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		// Grow the changed lines to paragraph boundaries so that words split across
+		// lines and multi-line constructs are checked as a whole
+		let start = Math.max(0, Math.min(dirty.start, textDocument.lineCount - 1));
+		let end = Math.max(start, Math.min(dirty.end, textDocument.lineCount - 1));
+		while (start > 0 && !textDocument.lineAt(start - 1).isEmptyOrWhitespace) {
+			start--;
 		}
-		// remove inline code blocks
-		text = text.replace(/`[\w\W]+?`/g, ' ');
-		if (DEBUG) {
-			console.log('Remove inline code blocks');
-			console.log(text);
-			console.log('------------------------------------------');
+		while (end < textDocument.lineCount - 1 && !textDocument.lineAt(end + 1).isEmptyOrWhitespace) {
+			end++;
 		}
-		// remove image links
-		text = text.replace(/\(.*\.(jpg|jpeg|png|md|gif|pdf|svg)\)/gi, ' ');
+
+		let range = new vscode.Range(start, 0, end, textDocument.lineAt(end).text.length);
+		let version = textDocument.version;
+
 		if (DEBUG) {
-			console.log('Remove links');
-			console.log(text);
-			console.log('------------------------------------------');
+			console.log('Checking lines ' + String(start + 1) + ' to ' + String(end + 1) + ' of ' + textDocument.fileName);
 		}
-		// remove web links
-		text = text.replace(/(http|https|ftp|git)\S*/g, ' ')
-		if (DEBUG) {
-			console.log('Remove web links');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		let found: SpellingDiagnostic[] = [];
+		return this.checkRange(textDocument, range, found).then(outcome => {
+			// The document was edited while checking; the edit scheduled another check
+			if (outcome != 'completed' || textDocument.version != version) {
+				return;
+			}
+
+			// Lines marked while checking, e.g. by a settings change, still need a check
+			if (this.dirtyLines[uri] === dirty) {
+				delete this.dirtyLines[uri];
+			}
+
+			let diagnostics: SpellingDiagnostic[] = this.diagnosticMap[uri].filter(diag => diag.range.end.line < start || diag.range.start.line > end);
+			diagnostics = diagnostics.concat(found);
+			diagnostics.sort((a, b) => a.range.start.compareTo(b.range.start));
+			diagnostics = this.applyLimits(textDocument, diagnostics);
+
+			this.diagnosticCollection.set(textDocument.uri, diagnostics);
+			this.diagnosticMap[uri] = diagnostics;
+		});
+	}
+
+	private doAutoSpellCheck(textDocument: vscode.TextDocument) {
+		// If checkInterval is negative, the document will not be automatically checked
+		if (this.settings.checkInterval < 0) {
+			return;
 		}
-		// remove email addresses 
-		text = text.replace(/[a-zA-Z.\-0-9]+@[a-z.]+/g, ' ');
-		if (DEBUG) {
-			console.log('Remove email addresses');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		if (this.scanning[textDocument.uri.toString()]) {
+			return;
 		}
-		// remove non-letter characters
-		text = text.replace(/[`\"!#$%&()*+,.\/:;<=>?@\[\]\\^_{|}\n\r\-~]/g, ' ');
-		if (DEBUG) {
-			console.log('Remove non-letter characters');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		this.doSpellCheck(textDocument);
+	}
+
+	// Check the whole document. Resolves with every spelling error found, including
+	// those that aren't shown because of the limits, or undefined if it wasn't checked.
+	private doSpellCheck(textDocument: vscode.TextDocument): Promise<SpellingDiagnostic[]> {
+		if ((textDocument == null || textDocument.fileName == null) && vscode.window.activeTextEditor) {
+			textDocument = vscode.window.activeTextEditor.document;
 		}
-		// remove numbers:
-		text = text.replace(/ [0-9]+/g, ' ');
-		if (DEBUG) {
-			console.log('Remove numbers');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		if (textDocument == null || textDocument.fileName == null) {
+			return Promise.resolve(undefined);
 		}
-		// remove leading quotations
-		text = text.replace(/[\s ]['"]([a-zA-Z0-9])/g, ' $1');
+
 		if (DEBUG) {
-			console.log('Remove leading quotations');
-			console.log(text);
-			console.log('------------------------------------------');
+			console.log("documentType for " + textDocument.fileName + " is " + textDocument.languageId);
 		}
-		// remove trailing quotations
-		text = text.replace(/' /g, ' ');
+
 		if (DEBUG) {
-			console.log('Remove trailing quotations');
-			console.log(text);
-			console.log('------------------------------------------');
+			console.log(textDocument);
 		}
-		// convert tabs to spaces
-		text = text.replace(/\t/g, ' ');
-		if (DEBUG) {
-			console.log('Convert tabs to spaces');
-			console.log(text);
-			console.log('------------------------------------------');
+
+		if (!this.shouldCheck(textDocument)) {
+			return Promise.resolve(undefined);
 		}
-		// remove LaTeX commands
-		text = text.replace(/\\\w*\{.*?\}/g, ' ');
+
+		let startTime = new Date().getTime();
 		if (DEBUG) {
-			console.log('Remove LaTeX commands');
-			console.log(text);
-			console.log('------------------------------------------');
+			console.log('Starting spell check on ' + textDocument.fileName);
 		}
 
-		let lastposition = 0;
-		let position = 0;
-		let linenumber = 0;
-		let colnumber = 0;
-		let lastline = 0;
+		let uri = textDocument.uri.toString();
+		let version = textDocument.version;
+		let dirty = this.dirtyLines[uri];
+		let diagnostics: SpellingDiagnostic[] = [];
 
-		let tokens = text.split(' ');
-		let lines = textoriginal.split('\n');
+		return this.checkRange(textDocument, undefined, diagnostics).then(outcome => {
+			if (outcome == 'failed') {
+				return undefined;
+			}
 
-		if (DEBUG) {
-			console.log('Num tokens: ' + String(tokens.length));
-		}
+			if (outcome == 'cancelled' || textDocument.version != version) {
+				// The results are out of date, so check the whole document again once edits settle
+				if (this.diagnosticMap[uri]) {
+					this.dirtyLines[uri] = { start: 0, end: textDocument.lineCount - 1 };
+				}
+				this.scheduler.schedule(uri, this.settings.checkInterval);
+				return undefined;
+			}
 
-		for (let i in tokens) {
-			if (DEBUG) {
-				let currTime = new Date().getTime();
-				let seconds: number = Math.floor((currTime - startTime) / 1000);
+			let shown = this.applyLimits(textDocument, diagnostics);
+			this.diagnosticCollection.set(textDocument.uri, shown);
+			// create local copy so it can be updated
+			this.diagnosticMap[uri] = shown;
+			if (this.dirtyLines[uri] === dirty) {
+				delete this.dirtyLines[uri];
+			}
 
-				if (seconds % 10 == 0 && lastSeconds != seconds) {
-					lastSeconds = seconds;
-					console.log("Elapsed time: " + seconds + " seconds");
-				}
+			let endTime = new Date().getTime();
+			let minutes = (endTime - startTime) / 1000;
+			if (DEBUG) {
+				console.log('Check completed in ' + String(minutes));
+				console.log('Found ' + String(diagnostics.length) + ' errors');
 			}
 
-			let token = tokens[i];
-			if (token.length > 3) {
-				// find line number and column number
-				position = lines[linenumber].indexOf(token, lastposition);
-				while (position < 0) {
-					lastposition = 0;
-					linenumber++;
-					if (linenumber < lines.length) {
-						position = lines[linenumber].indexOf(token, lastposition);
-					}
-					else {
-						console.log('Error text not found: ' + token);
-					}
-				}
+			return diagnostics;
+		});
+	}
 
-				colnumber = position;
-				lastposition = position;
+	// Check every file in the workspace that matches the settings, so the Problems
+	// panel lists the spelling errors of files that aren't open
+	private checkWorkspaceCommand(): Thenable<void> {
+		if (!vscode.workspace.workspaceFolders) {
+			vscode.window.showErrorMessage('Open a folder to spell check a workspace.');
+			return Promise.resolve();
+		}
+
+		// Only files whose extension or name belongs to a checked document type are
+		// opened, so binary and other large files are never read
+		let glob = getFilesGlob(this.settings.documentTypes);
+		if (!glob) {
+			vscode.window.showErrorMessage('None of the types in \'spellchecker.documentTypes\' has known file extensions.');
+			return Promise.resolve();
+		}
 
-				if (token.indexOf('’') >= 0) {
-					token = token.replace(/’/, '\'');
+		return vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Spell checking workspace',
+			cancellable: true
+		}, (progress, token) => {
+			return vscode.workspace.findFiles(glob, '**/node_modules/**', MAX_WORKSPACE_FILES, token).then(uris => {
+				if (uris.length >= MAX_WORKSPACE_FILES) {
+					vscode.window.showWarningMessage('Only the first ' + String(MAX_WORKSPACE_FILES) + ' files of the workspace are checked. Use \'spellchecker.include\' or \'spellchecker.exclude\' to select fewer files.');
 				}
+				uris = uris.filter(uri => this.isFileIncluded(uri));
+
+				let report = new SpellingReport();
+				let index = 0;
 
-				if (!this.SpellChecker.check(token)) {
-					if (DEBUG) {
-						console.log('Error: \'' + token + '\', line ' + String(linenumber + 1) + ', col ' + String(colnumber + 1));
+				// One file at a time, so only a single document is being checked at once
+				let next = (): Thenable<SpellingReport> => {
+					if (index >= uris.length || token.isCancellationRequested) {
+						return Promise.resolve(report);
 					}
 
-					let lineRange = new vscode.Range(linenumber, colnumber, linenumber, colnumber + token.length);
+					let uri = uris[index++];
+					progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / uris.length });
 
-					// Make sure word isn't in the ignore list
-					if (this.settings.ignoreWordsList.indexOf(token) < 0) {
-						if (token in this.problemCollection) {
-							let diag = new vscode.Diagnostic(lineRange, this.problemCollection[token], this.getSeverity());
-							diag.source = 'Spell Checker';
-							diagnostics.push(diag);
+					this.scanning[uri.toString()] = true;
+					return vscode.workspace.openTextDocument(uri).then(textDocument => {
+						if (this.settings.documentTypes.indexOf(textDocument.languageId) < 0) {
+							return;
 						}
-						else {
-							let message = 'Spelling [ ' + token + ' ]: suggestions [ ';
-							let containsNumber = token.match(/[0-9]+/g);
-
-							if (token.length < 50 && containsNumber == null) {
-								let suggestions = this.SpellChecker.suggest(token);
-								for (let s of suggestions) {
-									message += s + ', ';
-								}
-								if (suggestions.length > 0) {
-									message = message.slice(0, message.length - 2);
-								}
-							}
-							message += ' ]';
 
-							if (DEBUG) {
-								console.log(message);
+						// The report counts every error, including those the limits hide
+						return this.doSpellCheck(textDocument).then(diagnostics => {
+							if (diagnostics) {
+								this.workspaceFiles[uri.toString()] = textDocument.languageId;
+								report.add(vscode.workspace.asRelativePath(uri), diagnostics.map(diag => diag.word));
 							}
+						});
+					}, error => {
+						// Binary and unreadable files are skipped
+						if (DEBUG) {
+							console.log('Skipped ' + uri.fsPath + ': ' + error.message);
+						}
+					}).then(() => {
+						delete this.scanning[uri.toString()];
+						return next();
+					});
+				};
 
-							let diag = new vscode.Diagnostic(lineRange, message, this.getSeverity());
-							diag.source = 'Spell Checker';
-							diagnostics.push(diag);
-
-							if (diagnostics.length > 250) {
-								vscode.window.setStatusBarMessage("Over 250 spelling errors found!", 5000);
-								break;
-							}
+				return next();
+			});
+		}).then(report => {
+			this.workspaceReport = report;
 
-							this.problemCollection[token] = message;
-						}
-					}
+			let message = 'Found ' + String(report.errorCount) + ' spelling errors in ' + String(report.fileCount) + ' files.';
+			return vscode.window.showInformationMessage(message, 'Export Report').then(choice => {
+				if (choice) {
+					return this.exportReportCommand();
 				}
-			}
-		}
-		this.diagnosticCollection.set(textDocument.uri, diagnostics);
-		// create local copy so it can be updated
-		this.diagnosticMap[textDocument.uri.toString()] = diagnostics;
+			});
+		});
+	}
 
-		let endTime = new Date().getTime();
-		let minutes = (endTime - startTime) / 1000;
-		if (DEBUG) {
-			console.log('Check completed in ' + String(minutes));
-			console.log('Found ' + String(diagnostics.length) + ' errors');
+	// Save a summary of the last workspace check as JSON or Markdown
+	private exportReportCommand(): Thenable<void> {
+		if (!this.workspaceReport) {
+			vscode.window.showErrorMessage('Run \'Spell Check Workspace\' before exporting a report.');
+			return Promise.resolve();
 		}
 
-		this.lastcheck = Date.now();
+		let report = this.workspaceReport;
+		let format: string;
+
+		return vscode.window.showQuickPick(['Markdown', 'JSON'], { placeHolder: 'Export the spelling report as:' }).then(choice => {
+			if (!choice) {
+				return undefined;
+			}
+
+			format = choice;
+			let folder = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri : undefined;
+			let filename = format == 'JSON' ? 'spelling-report.json' : 'spelling-report.md';
+
+			return vscode.window.showSaveDialog({
+				defaultUri: folder ? vscode.Uri.file(path.join(folder.fsPath, filename)) : undefined,
+				filters: format == 'JSON' ? { 'JSON': ['json'] } : { 'Markdown': ['md'] }
+			});
+		}).then(uri => {
+			if (!uri) {
+				return;
+			}
+
+			let content = format == 'JSON' ? JSON.stringify(report.toJSON(), null, 4) + '\n' : report.toMarkdown();
+			try {
+				fs.writeFileSync(uri.fsPath, content, 'utf-8');
+			}
+			catch (e) {
+				vscode.window.showErrorMessage('Failed to save the spelling report: ' + e.message);
+			}
+		});
 	}
 
-	private getSeverity(): vscode.DiagnosticSeverity {
-		if (this.settings.suggestionSeverity == "Error") {
-			return vscode.DiagnosticSeverity.Error;
-		}
-		if (this.settings.suggestionSeverity == "Hint") {
-			return vscode.DiagnosticSeverity.Hint;
-		}
-		if (this.settings.suggestionSeverity == "Information") {
-			return vscode.DiagnosticSeverity.Information;
+	// Check the words in `range`, or in the whole document if no range is given, and
+	// add a diagnostic for every spelling error to `diagnostics`
+	private checkRange(textDocument: vscode.TextDocument, range: vscode.Range, diagnostics: SpellingDiagnostic[]): Promise<CheckOutcome> {
+		let uri = textDocument.uri.toString();
+		let resolved = this.resolveLanguages(textDocument);
+		let text = textDocument.getText();
+		let start = range ? textDocument.offsetAt(range.start) : 0;
+		let end = range ? textDocument.offsetAt(range.end) : text.length;
+
+		if (DEBUG) {
+			console.log('Original text');
+			console.log(text.substring(start, end));
+			console.log('------------------------------------------');
 		}
-		if (this.settings.suggestionSeverity == "Warning") {
-			return vscode.DiagnosticSeverity.Warning;
+
+		if (this.documentLanguages[uri] === undefined || this.documentLanguages[uri].languages.join(',') != resolved.languages.join(',')) {
+			this.documentLanguages[uri] = resolved;
+			this.updateStatusBar();
 		}
 
-		// Should not be reached
-		return vscode.DiagnosticSeverity.Warning;
-	}
+		return this.dictionariesReady.then(() => {
+			return this.SpellChecker.check(uri, text, textDocument.languageId, resolved.languages, start, end, this.getFolderKey(textDocument.uri));
+		}).then(result => {
+			if (result === null) {
+				return 'cancelled';
+			}
 
-	private processUserIgnoreRegex(text: string): string {
-		for (let i = 0; i < this.settings.ignoreRegExp.length; i++) {
-			// Convert the JSON of regExp Strings into a real RegExp
-			let flags = this.settings.ignoreRegExp[i].replace(/.*\/([gimy]*)$/, '$1');
-			let pattern = this.settings.ignoreRegExp[i].replace(new RegExp('^/(.*?)/' + flags + '$'), '$1');
+			this.documentDirectives[uri] = result.directives;
+			let severity = vscode.DiagnosticSeverity[getSeverityName(this.getDocumentSettings(textDocument.uri))];
 
-			pattern = pattern.replace(/\\\\/g, '\\');
+			for (let error of result.errors) {
+				let lineRange = new vscode.Range(textDocument.positionAt(error.offset), textDocument.positionAt(error.offset + error.length));
 
-			if (DEBUG) {
-				console.log(this.settings.ignoreRegExp[i]);
-				console.log(pattern);
-				console.log(flags);
+				if (DEBUG) {
+					console.log('Error: \'' + error.word + '\', line ' + String(lineRange.start.line + 1) + ', col ' + String(lineRange.start.character + 1));
+				}
+
+				diagnostics.push(new SpellingDiagnostic(lineRange, error.word, result.languages, severity));
 			}
 
-			let regex = new RegExp(pattern, flags);
+			return 'completed';
+		}).catch(error => {
+			console.log('Spell check failed for ' + textDocument.fileName + ': ' + error.message);
+			return 'failed';
+		});
+	}
 
-			if (DEBUG) {
-				console.log(text.match(regex));
+	public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): Promise<vscode.CodeAction[]> {
+		let diagnostics = this.getSpellingDiagnostics(document, context.diagnostics);
+
+		if (diagnostics.length == 0) {
+			return undefined;
+		}
+
+		return Promise.all(diagnostics.map(diag => this.getSuggestions(diag))).then(found => {
+			if (token.isCancellationRequested) {
+				return undefined;
 			}
 
-			text = text.replace(regex, ' ');
+			let actions: vscode.CodeAction[] = [];
+			let words: string[] = [];
 
-		}
+			// Only one fix can be preferred, or Auto Fix has nothing to apply: the top
+			// suggestion for the error at the cursor, or else for the first error
+			let preferred = diagnostics.find(diagnostic => diagnostic.range.contains(range.start)) || diagnostics[0];
 
-		return text;
-	}
+			// A failed lookup isn't stored on the diagnostic, so use the results
+			diagnostics.forEach((diagnostic, i) => {
+				let suggestions = found[i];
+
+				// Add suggestions to action list
+				suggestions.forEach((suggestion, index) => {
+					// Label suggestions with their language when several dictionaries are used
+					let title = 'Replace with \'' + suggestion.word + '\'';
+					if (diagnostic.languages.length > 1) {
+						title += ' (' + suggestion.language + ')';
+					}
 
-	public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): vscode.Command[] {
-		let diagnostic: vscode.Diagnostic = context.diagnostics[0];
+					let action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+					action.edit = new vscode.WorkspaceEdit();
+					action.edit.replace(document.uri, diagnostic.range, suggestion.word);
+					action.diagnostics = [diagnostic];
+					action.isPreferred = diagnostic === preferred && index == 0;
+					actions.push(action);
+				});
 
-		if (!diagnostic)
-			return null;
+				if (words.indexOf(diagnostic.word) >= 0) {
+					return;
+				}
+				words.push(diagnostic.word);
+
+				// Fixing every occurrence only makes sense with the top suggestion
+				if (suggestions.length > 0) {
+					let suggestion = suggestions[0].word;
+					let fileOccurrences = this.findOccurrences(diagnostic.word, [document]);
+					let openOccurrences = this.findOccurrences(diagnostic.word, vscode.workspace.textDocuments);
+
+					if (fileOccurrences.length > 1) {
+						let action = new vscode.CodeAction('Replace all occurrences of \'' + diagnostic.word + '\' in this file with \'' + suggestion + '\'', vscode.CodeActionKind.QuickFix);
+						action.edit = this.createReplaceEdit(fileOccurrences, suggestion);
+						action.diagnostics = fileOccurrences.map(occurrence => occurrence.diagnostic);
+						actions.push(action);
+					}
 
-		// Get word
-		let match: string[] = diagnostic.message.match(/^Spelling \[\ (.+)\ \]\:/);
-		if (DEBUG && match) {
-			console.log('Code action: match word');
-			match.forEach(function (m) {
-				console.log(m);
+					if (openOccurrences.length > fileOccurrences.length) {
+						let action = new vscode.CodeAction('Replace \'' + diagnostic.word + '\' with \'' + suggestion + '\' across all open documents', vscode.CodeActionKind.QuickFix);
+						action.edit = this.createReplaceEdit(openOccurrences, suggestion);
+						action.diagnostics = fileOccurrences.map(occurrence => occurrence.diagnostic);
+						actions.push(action);
+					}
+				}
 			});
-		}
-		let word: string = '';
 
-		// should always be true
-		if (match.length >= 2) {
-			word = match[1];
-		}
+			words.forEach(word => {
+				let ignore = new vscode.CodeAction('Ignore \'' + word + '\'', vscode.CodeActionKind.QuickFix);
+				ignore.command = {
+					title: ignore.title,
+					command: SpellCheckerProvider.ignoreCommandId,
+					arguments: [document, word]
+				};
+				actions.push(ignore);
+
+				let alwaysIgnore = new vscode.CodeAction('Always ignore \'' + word + '\'', vscode.CodeActionKind.QuickFix);
+				alwaysIgnore.command = {
+					title: alwaysIgnore.title,
+					command: SpellCheckerProvider.alwaysIgnoreCommandId,
+					arguments: [document, word]
+				};
+				actions.push(alwaysIgnore);
+
+				if (this.getProjectDictionary(document.uri)) {
+					let addToDictionary = new vscode.CodeAction('Add \'' + word + '\' to project dictionary', vscode.CodeActionKind.QuickFix);
+					addToDictionary.command = {
+						title: addToDictionary.title,
+						command: 'spellchecker.addToProjectDictionary',
+						arguments: [word, document.uri.toString()]
+					};
+					actions.push(addToDictionary);
+				}
+			});
+
+			return actions;
+		});
+	}
+
+	// Show the suggestions for a misspelled word, the dictionaries that don't contain
+	// it and whether it is in an ignore list, with links to fix or ignore it
+	public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover> {
+		let diagnostics: SpellingDiagnostic[] = this.diagnosticMap[document.uri.toString()] || [];
+		let diagnostic = diagnostics.find(diag => diag.range.contains(position));
 
-		if (word.length == 0) {
+		if (!diagnostic) {
 			return undefined;
 		}
 
-		// Get suggestions
-		match = diagnostic.message.match(/suggestions \[\ (.+)\ \]$/);
-		if (DEBUG && match) {
-			console.log('Code action: match suggestions');
-			match.forEach(function (m) {
-				console.log(m);
+		return this.getSuggestions(diagnostic).then(suggestions => {
+			if (token.isCancellationRequested) {
+				return undefined;
+			}
+
+			let word = diagnostic.word;
+			let uri = document.uri.toString();
+			let link = (title: string, command: string, args: any[]): string => {
+				return '[' + title + '](command:' + command + '?' + encodeURIComponent(JSON.stringify(args)) + ')';
+			};
+
+			let dictionaries = diagnostic.languages.map(language => {
+				let dictionary = this.SpellChecker.getDictionary(language);
+				if (!dictionary) {
+					return '`' + language + '`';
+				}
+
+				let sources = { bundled: 'bundled', user: 'user dictionary', workspace: 'workspace dictionary' };
+				return dictionary.description + ' (`' + language + '`, ' + sources[dictionary.source] + ')';
 			});
+
+			let markdown = new vscode.MarkdownString();
+			markdown.isTrusted = true;
+			markdown.appendMarkdown('**Spelling:** `' + word + '` is not in ' + (dictionaries.length > 1 ? 'any of ' : '') + dictionaries.join(', ') + '\n\n');
+
+			if (suggestions.length > 0) {
+				suggestions.forEach((suggestion, index) => {
+					let args = [uri, diagnostic.range.start.line, diagnostic.range.start.character, word, suggestion.word];
+					let label = diagnostic.languages.length > 1 ? ' (' + suggestion.language + ')' : '';
+					markdown.appendMarkdown(String(index + 1) + '. ' + link(suggestion.word, SpellCheckerProvider.replaceCommandId, args) + label + '\n');
+				});
+				markdown.appendMarkdown('\n');
+			}
+			else {
+				markdown.appendMarkdown('No suggestions\n\n');
+			}
+
+			markdown.appendMarkdown(this.describeIgnoreLists(word, document.uri) + '\n\n');
+
+			let actions = [
+				link('Ignore', SpellCheckerProvider.ignoreCommandId, [uri, word]),
+				link('Always ignore', SpellCheckerProvider.alwaysIgnoreCommandId, [uri, word])
+			];
+			if (this.getProjectDictionary(document.uri)) {
+				actions.push(link('Add to project dictionary', 'spellchecker.addToProjectDictionary', [word, uri]));
+			}
+			markdown.appendMarkdown(actions.join(' | '));
+
+			return new vscode.Hover(markdown, diagnostic.range);
+		});
+	}
+
+	// Which ignore lists contain `word`. A flagged word can still be listed with
+	// different casing, or before the document has been checked again.
+	private describeIgnoreLists(word: string, uri: vscode.Uri): string {
+		let inspection = vscode.workspace.getConfiguration('spellchecker', uri).inspect<string[]>('ignoreWordsList');
+		let dictionary = this.getProjectDictionary(uri);
+		let lists: { name: string, words: string[] }[] = [
+			{ name: 'folder ignore list', words: inspection.workspaceFolderValue || [] },
+			{ name: 'workspace ignore list', words: inspection.workspaceValue || [] },
+			{ name: 'user ignore list', words: inspection.globalValue || [] },
+			{ name: 'project dictionary', words: dictionary ? dictionary.getWords() : [] }
+		];
+
+		let found: string[] = [];
+		for (let list of lists) {
+			if (list.words.indexOf(word) >= 0) {
+				found.push('In the ' + list.name);
+				continue;
+			}
+
+			// Entries can start with '~' and end with affix flags, e.g. '~kubectl' or 'widget/SM'
+			let other = list.words.find(entry => entry.replace(/^~/, '').split('/')[0].toLowerCase() == word.toLowerCase());
+			if (other) {
+				found.push('The ' + list.name + ' contains `' + other + '`');
+			}
 		}
-		let suggestionstring: string = '';
 
-		let commands: vscode.Command[] = [];
+		return found.length > 0 ? found.join('  \n') : 'Not in the workspace or user ignore list';
+	}
 
-		if (match && match.length >= 2) {
-			suggestionstring = match[1];
+	// Replace a misspelled word from a hover link, unless the document changed since
+	private replaceCodeAction(uri: string, line: number, character: number, word: string, replacement: string): Thenable<boolean> {
+		let textDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() == uri);
+		let range = new vscode.Range(line, character, line, character + word.length);
 
-			let suggestions: string[] = suggestionstring.split(/\,\ /g);
+		if (!textDocument || textDocument.getText(range).replace(/’/g, '\'') != word) {
+			vscode.window.showWarningMessage('\'' + word + '\' is no longer at the same position.');
+			return Promise.resolve(false);
+		}
 
-			// Add suggestions to command list
-			suggestions.forEach(function (suggestion) {
-				commands.push({
-					title: 'Replace with \'' + suggestion + '\'',
-					command: SpellCheckerProvider.suggestCommandId,
-					arguments: [document, diagnostic, word, suggestion]
-				});
-			});
+		let edit = new vscode.WorkspaceEdit();
+		edit.replace(textDocument.uri, range, replacement);
+		return vscode.workspace.applyEdit(edit);
+	}
+
+	// Every spelling diagnostic for `word` in the given documents
+	private findOccurrences(word: string, documents: ReadonlyArray<vscode.TextDocument>): { uri: vscode.Uri, diagnostic: SpellingDiagnostic }[] {
+		let occurrences: { uri: vscode.Uri, diagnostic: SpellingDiagnostic }[] = [];
+
+		for (let document of documents) {
+			let diagnostics: SpellingDiagnostic[] = this.diagnosticMap[document.uri.toString()] || [];
+			for (let diagnostic of diagnostics) {
+				if (diagnostic.word == word) {
+					occurrences.push({ uri: document.uri, diagnostic: diagnostic });
+				}
+			}
 		}
 
-		commands.push({
-			title: 'Ignore \'' + word + '\'',
-			command: SpellCheckerProvider.ignoreCommandId,
-			arguments: [document, word]
-		});
+		return occurrences;
+	}
 
-		commands.push({
-			title: 'Always ignore \'' + word + '\'',
-			command: SpellCheckerProvider.alwaysIgnoreCommandId,
-			arguments: [document, word]
-		});
+	private createReplaceEdit(occurrences: { uri: vscode.Uri, diagnostic: SpellingDiagnostic }[], suggestion: string): vscode.WorkspaceEdit {
+		let edit = new vscode.WorkspaceEdit();
+		for (let occurrence of occurrences) {
+			edit.replace(occurrence.uri, occurrence.diagnostic.range, suggestion);
+		}
 
-		return commands;
+		return edit;
 	}
 
-	private fixSuggestionCodeAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, word: string, suggestion: string): any {
-		let docWord: string = document.getText(diagnostic.range);
+	// Spelling diagnostics among `diagnostics`. Diagnostics from other extensions are
+	// skipped, and copies of our own are matched back to the diagnostics we created.
+	private getSpellingDiagnostics(document: vscode.TextDocument, diagnostics: ReadonlyArray<vscode.Diagnostic>): SpellingDiagnostic[] {
+		let known: SpellingDiagnostic[] = this.diagnosticMap[document.uri.toString()] || [];
+		let result: SpellingDiagnostic[] = [];
+
+		for (let diagnostic of diagnostics) {
+			if (!SpellingDiagnostic.isSpelling(diagnostic)) {
+				continue;
+			}
 
-		if (word == docWord) {
-			// Remove diagnostic from list
-			let diagnostics: vscode.Diagnostic[] = this.diagnosticMap[document.uri.toString()];
-			let index: number = diagnostics.indexOf(diagnostic);
+			let diag = diagnostic instanceof SpellingDiagnostic ? diagnostic : known.find(d => d.range.isEqual(diagnostic.range));
+			if (diag) {
+				result.push(diag);
+			}
+		}
 
-			diagnostics.splice(index, 1);
+		return result;
+	}
 
-			// Update with new diagnostics
-			this.diagnosticMap[document.uri.toString()] = diagnostics;
-			this.diagnosticCollection.set(document.uri, diagnostics);
+	// Suggestions are only looked up when they are needed, e.g. for code actions. A
+	// failed lookup isn't stored, so the next request tries again.
+	private getSuggestions(diagnostic: SpellingDiagnostic): Promise<Suggestion[]> {
+		let word = diagnostic.word;
 
-			// Insert the new text
-			let edit = new vscode.WorkspaceEdit();
-			edit.replace(document.uri, diagnostic.range, suggestion);
-			return vscode.workspace.applyEdit(edit);
+		if (diagnostic.suggestions) {
+			return Promise.resolve(diagnostic.suggestions);
 		}
-		else {
-			vscode.window.showErrorMessage('The suggestion was not applied because it is out of date. You might have tried to apply the same edit twice.');
+
+		return this.SpellChecker.suggest(word, diagnostic.languages).then(suggestions => {
+			diagnostic.suggestions = suggestions;
+			return suggestions;
+		}).catch(error => {
+			console.log('Failed to find suggestions for \'' + word + '\': ' + error.message);
+			return [];
+		});
+	}
+
+	// Documents are passed by their URI from hover links
+	private findDocument(document: vscode.TextDocument | string): vscode.TextDocument {
+		if (typeof document != 'string') {
+			return document;
 		}
+
+		return vscode.workspace.textDocuments.find(d => d.uri.toString() == document);
 	}
 
-	private ignoreCodeAction(document: vscode.TextDocument, word: string): any {
-		if (this.addWordToIgnoreList(word, true)) {
-			this.doSpellCheck(document);
+	private ignoreCodeAction(document: vscode.TextDocument | string, word: string): any {
+		let textDocument = this.findDocument(document);
+		if (this.addWordToIgnoreList(word, true, textDocument ? textDocument.uri : undefined)) {
+			this.doSpellCheck(textDocument);
 		}
 		else {
 			vscode.window.showWarningMessage('The word has already been added to the ignore list. You might have tried to add the same word twice.');
 		}
 	}
 
-	private alwaysIgnoreCodeAction(document: vscode.TextDocument, word: string): any {
+	private alwaysIgnoreCodeAction(document: vscode.TextDocument | string, word: string): any {
 		if (DEBUG) {
 			console.log(word);
 			console.log(document);
 			console.log(Object.keys(document));
 		}
-		if (this.addWordToAlwaysIgnoreList(word)) {
-			this.doSpellCheck(document);
+		let textDocument = this.findDocument(document);
+		if (this.addWordToAlwaysIgnoreList(word, textDocument ? textDocument.uri : undefined)) {
+			this.doSpellCheck(textDocument);
 		}
 		else {
 			vscode.window.showWarningMessage('The word has already been added to the ignore list. You might have tried to add the same word twice.');
 		}
 	}
 
-	public addWordToIgnoreList(word: string, save: boolean): boolean {
+	// `uri` picks the folder's project dictionary; it defaults to the active document's
+	private addToProjectDictionaryCommand(word?: string, uri?: string): Thenable<void> {
+		let dictionary = this.getProjectDictionary(uri ? vscode.Uri.parse(uri) : undefined);
+		if (!dictionary) {
+			vscode.window.showErrorMessage('Open a folder to use a project dictionary.');
+			return Promise.resolve();
+		}
+
+		// Without a word, use the selection or the word under the cursor
+		let editor = vscode.window.activeTextEditor;
+		if (!word && editor) {
+			let range: vscode.Range = editor.selection;
+			if (range.isEmpty) {
+				range = editor.document.getWordRangeAtPosition(editor.selection.active);
+			}
+			if (range) {
+				word = editor.document.getText(range).trim().replace(/’/g, '\'');
+			}
+		}
+
+		let input: Thenable<string> = word ? Promise.resolve(word) : vscode.window.showInputBox({ prompt: 'Word to add to the project dictionary' });
+
+		return input.then(value => {
+			if (!value) {
+				return;
+			}
+
+			if (dictionary.add(value)) {
+				this.updateIgnoreWords();
+				this.recheckOpenDocuments();
+			}
+			else {
+				vscode.window.showWarningMessage('\'' + value + '\' is already in the project dictionary.');
+			}
+		}).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Failed to update the project dictionary: ' + error.message);
+		});
+	}
+
+	private removeFromDictionaryCommand(): Thenable<void> {
+		let dictionary = this.getProjectDictionary();
+		if (!dictionary) {
+			vscode.window.showErrorMessage('Open a folder to use a project dictionary.');
+			return Promise.resolve();
+		}
+
+		let words = dictionary.getWords();
+		if (words.length == 0) {
+			vscode.window.showInformationMessage('The project dictionary is empty.');
+			return Promise.resolve();
+		}
+
+		return vscode.window.showQuickPick(words, { canPickMany: true, placeHolder: 'Select the words to remove from the project dictionary' }).then(selected => {
+			if (!selected || selected.length == 0) {
+				return;
+			}
+
+			dictionary.removeWords(selected);
+			this.updateIgnoreWords();
+			this.recheckOpenDocuments();
+		}).then(() => undefined, error => {
+			vscode.window.showErrorMessage('Failed to update the project dictionary: ' + error.message);
+		});
+	}
+
+	private editDictionaryCommand(): Thenable<void> {
+		let dictionary = this.getProjectDictionary();
+		if (!dictionary) {
+			vscode.window.showErrorMessage('Open a folder to use a project dictionary.');
+			return Promise.resolve();
+		}
+
+		try {
+			dictionary.ensureExists();
+		}
+		catch (e) {
+			vscode.window.showErrorMessage('Failed to create the project dictionary: ' + e.message);
+			return Promise.resolve();
+		}
+
+		return vscode.workspace.openTextDocument(dictionary.filename).then(textDocument => {
+			return vscode.window.showTextDocument(textDocument);
+		}).then(() => undefined);
+	}
+
+	// `uri` is the document the word was found in. In a multi-root workspace the word
+	// is saved to the settings of the document's folder.
+	public addWordToIgnoreList(word: string, save: boolean, uri?: vscode.Uri): boolean {
+		let folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+		let settings = folder ? this.getFolderSettings(folder) : this.settings;
+
 		// Only add the word if it's not already in the list
-		if (this.settings.ignoreWordsList.indexOf(word) < 0) {
-			this.settings.ignoreWordsList.push(word);
+		if (settings.ignoreWordsList.indexOf(word) < 0) {
+			// The list can be the configuration's own array, which must not change
+			settings.ignoreWordsList = settings.ignoreWordsList.concat(word);
+			this.updateIgnoreWords();
 			if (save) {
-				let userSettingsData: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('spellchecker');
+				let multiRoot = folder && vscode.workspace.workspaceFolders.length > 1;
+				let userSettingsData: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('spellchecker', folder ? folder.uri : undefined);
 
 				let inspection = userSettingsData.inspect('ignoreWordsList');
+				let current = multiRoot ? inspection.workspaceFolderValue : inspection.workspaceValue;
 				let ignoreWordsList: Array<string> = []
-				if (inspection.workspaceValue instanceof Array) {
-					ignoreWordsList = inspection.workspaceValue;
+				if (current instanceof Array) {
+					ignoreWordsList = current.concat();
 				}
 				ignoreWordsList.push(word);
-				userSettingsData.update('ignoreWordsList', this.getUniqueArray(ignoreWordsList), vscode.ConfigurationTarget.Workspace);
+				userSettingsData.update('ignoreWordsList', this.getUniqueArray(ignoreWordsList), multiRoot ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace);
 			}
 			return true;
 		}
@@ -645,14 +1425,14 @@ export default class SpellCheckerProvider implements vscode.CodeActionProvider {
 		return false;
 	}
 
-	public addWordToAlwaysIgnoreList(word: string): boolean {
-		if (this.addWordToIgnoreList(word, false)) {
+	public addWordToAlwaysIgnoreList(word: string, uri?: vscode.Uri): boolean {
+		if (this.addWordToIgnoreList(word, false, uri)) {
 			let userSettingsData: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('spellchecker');
 
 			let inspection = userSettingsData.inspect('ignoreWordsList');
 			let ignoreWordsList: Array<string> = []
 			if (inspection.globalValue instanceof Array) {
-				ignoreWordsList = inspection.globalValue;
+				ignoreWordsList = inspection.globalValue.concat();
 			}
 			ignoreWordsList.push(word);
 			userSettingsData.update('ignoreWordsList', this.getUniqueArray(ignoreWordsList), vscode.ConfigurationTarget.Global);
@@ -661,21 +1441,26 @@ export default class SpellCheckerProvider implements vscode.CodeActionProvider {
 		return false;
 	}
 
-	public setLanguage(language: string = 'en_US'): void {
+	public setLanguage(language: string | string[] = 'en_US'): Promise<void> {
 		this.settings.language = language;
-		this.DICT = this.SpellChecker.parse(
-			{
-				aff: fs.readFileSync(path.join(this.extensionRoot, 'languages', this.settings.language + '.aff')),
-				dic: fs.readFileSync(path.join(this.extensionRoot, 'languages', this.settings.language + '.dic'))
-			});
+		this.SpellChecker.clearSuggestions();
 
-		this.SpellChecker.use(this.DICT);
+		// The dictionaries are parsed in the worker; checks queued after this wait for them
+		return this.ensureLanguages(getLanguages(this.settings.language)).then(() => {
+			if (this.statusBarItem) {
+				this.updateStatusBar();
+			}
+		});
 	}
 
 	public getDocumentTypes(): string[] {
 		return this.settings.documentTypes;
 	}
 
+	public getTextExtractors(): TextExtractorRegistry {
+		return this.SpellChecker.getTextExtractors();
+	}
+
 	private getUniqueArray(array): string[] {
 		let a: string[] = array.concat();
 		for (var i = 0; i < a.length; ++i) {
@@ -689,112 +1474,35 @@ export default class SpellCheckerProvider implements vscode.CodeActionProvider {
 		return a;
 	}
 
-	private migrateWorkspaceSettings(): void {
-		let qpOptions: vscode.QuickPickOptions =
-		{
-			placeHolder: 'Settings are now included in \'settings.json\'. What would you like to do?'
-		};
-		let options = [
-			'Migrate and delete \'spellchecker.json\'',
-			'Migrate and keep \'spellchecker.json\'',
-			'Ignore migration for now (settings will still be loaded)'
-		]
-		vscode.window.showQuickPick(options, qpOptions).then(val => {
-			let migrate: boolean = false;
-			let deleteOriginal: boolean = false;
-
-			switch (val) {
-				case 'Migrate and delete \'spellchecker.json\'':
-					{
-						migrate = true;
-						deleteOriginal = true;
-						break;
-					}
-				case 'Migrate settings and keep \'spellchecker.json\'':
-					{
-						migrate = true;
-						deleteOriginal = false;
-						break;
-					}
-				case 'Ignore migration for now (settings will still be loaded)':
-					{
-						migrate = false;
-						deleteOriginal = false;
-						break;
-					}
-			}
-
-			let settings: SpellSettings = JSON.parse(jsonMinify(fs.readFileSync(SpellCheckerProvider.CONFIGFILE, 'utf-8')));
-
-			if (migrate) {
-				// Check user settings
-				let userSettingsData: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('spellchecker');
-				Object.keys(settings).forEach(function (key) {
-					if (Array.isArray(settings[key]))
-						userSettingsData.update(key, this.getUniqueArray(settings[key].concat(userSettingsData[key])), false);
-					else
-						userSettingsData.update(key, settings[key], false);
-				}, this);
-
-			}
-			else {
-				let userSettingsData = this.settings;
-				Object.keys(settings).forEach(function (key) {
-					if (Array.isArray(settings[key]))
-						userSettingsData[key] = this.getUniqueArray(settings[key].concat(userSettingsData[key]));
-					else
-						userSettingsData[key] = settings[key];
-				}, this);
-
-				this.settings = userSettingsData;
-				this.setLanguage(this.settings.language);
-			}
+	// Until it is migrated, the legacy spellchecker.json of `folder` applies to its
+	// documents. `settings` is undefined once it doesn't.
+	private legacySettingsChanged(folder: vscode.WorkspaceFolder, settings: Partial<SpellSettings>): void {
+		if (settings) {
+			this.legacySettings[folder.uri.toString()] = settings;
+		}
+		else {
+			delete this.legacySettings[folder.uri.toString()];
+		}
 
-			if (deleteOriginal) {
-				fs.unlinkSync(SpellCheckerProvider.CONFIGFILE);
-			}
-		});
+		this.folderSettings = {};
+		this.fileFilters = {};
+		this.updateIgnoreRegExp();
+		this.updateIgnoreWords().then(() => this.recheckOpenDocuments());
 	}
 
-	private getSettings(): SpellSettings {
-		let returnSettings: SpellSettings = {
-			language: 'en_US',
-			ignoreWordsList: [],
-			documentTypes: ['markdown', 'latex', 'plaintext'],
-			ignoreRegExp: [],
-			ignoreFileExtensions: [],
-			ignoreFilenames: [],
-			checkInterval: 5000,
-			suggestionSeverity: "Warning",
-		};
+	// The settings that apply to `folder`, or to the window without a folder
+	private getSettings(folder?: vscode.WorkspaceFolder): SpellSettings {
+		let returnSettings: SpellSettings = getDefaultSettings();
 
 		// Check user settings
-		let userSettingsData: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('spellchecker');
+		let userSettingsData: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('spellchecker', folder ? folder.uri : undefined);
 
 		// If there are spellchecker settings in the user settings file
 		if (userSettingsData) {
 			// overwrite default settings with user settings
-			Object.keys(returnSettings).forEach(function (key) {
-				if (userSettingsData[key]) {
-					returnSettings[key] = userSettingsData[key];
-				}
-			});
-		}
-
-		// If we are in a workspace, get the spellchecker settings file
-		if (SpellCheckerProvider.CONFIGFILE.length == 0 && vscode.workspace.rootPath) {
-			SpellCheckerProvider.CONFIGFILE = path.join(vscode.workspace.rootPath, '.vscode', 'spellchecker.json');
-		}
-
-		if (SpellCheckerProvider.CONFIGFILE.length > 0 && fs.existsSync(SpellCheckerProvider.CONFIGFILE)) {
-			this.migrateWorkspaceSettings();
-		}
-		else {
-			if (DEBUG) {
-				console.log('Workspace configuration file not found: \'' + SpellCheckerProvider.CONFIGFILE + '\'');
-			}
+			applySettings(returnSettings, userSettingsData);
 		}
 
 		return returnSettings;
 	}
-}
\ No newline at end of file
+}
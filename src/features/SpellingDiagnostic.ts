@@ -0,0 +1,40 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import { Suggestion } from '../core/worker/protocol';
+import { describeError } from '../core/ProblemLimits';
+
+// A spelling error along with the word and the languages it was checked against,
+// so code actions never have to parse the diagnostic message
+export default class SpellingDiagnostic extends vscode.Diagnostic {
+	public static readonly SOURCE: string = 'Spell Checker';
+	public static readonly CODE: string = 'unknown-word';
+
+	// Filled in once suggestions have been looked up
+	public suggestions: Suggestion[] = undefined;
+
+	// `collapsed` is the number of later occurrences of the word that aren't reported
+	constructor(range: vscode.Range, public readonly word: string, public readonly languages: string[], severity: vscode.DiagnosticSeverity, public readonly collapsed: number = 0) {
+		super(range, describeError(word, collapsed), severity);
+		this.source = SpellingDiagnostic.SOURCE;
+		this.code = SpellingDiagnostic.CODE;
+	}
+
+	public static isSpelling(diagnostic: vscode.Diagnostic): boolean {
+		return diagnostic.source === SpellingDiagnostic.SOURCE && diagnostic.code === SpellingDiagnostic.CODE;
+	}
+
+	// Copy of this diagnostic moved to `range`
+	public withRange(range: vscode.Range): SpellingDiagnostic {
+		let diag = new SpellingDiagnostic(range, this.word, this.languages, this.severity, this.collapsed);
+		diag.suggestions = this.suggestions;
+		return diag;
+	}
+
+	// Copy of this diagnostic that mentions `collapsed` unreported occurrences
+	public withCollapsed(collapsed: number): SpellingDiagnostic {
+		let diag = new SpellingDiagnostic(this.range, this.word, this.languages, this.severity, collapsed);
+		diag.suggestions = this.suggestions;
+		return diag;
+	}
+}
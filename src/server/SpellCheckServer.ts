@@ -0,0 +1,584 @@
+'use strict';
+
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+	IConnection, TextDocuments, TextDocumentSyncKind, InitializeParams, InitializeResult, Diagnostic,
+	DiagnosticSeverity, CodeAction, CodeActionKind, CodeActionParams, ExecuteCommandParams, TextEdit,
+	Hover, MarkupKind, Range, TextDocumentPositionParams, WorkspaceFolder
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import SpellChecker, { SpellingError } from '../core/SpellChecker';
+import CheckScheduler from '../core/CheckScheduler';
+import FileFilter from '../core/FileFilter';
+import ProjectDictionary from '../core/ProjectDictionary';
+import { SpellSettings, getDefaultSettings, readSettingsFile, getLanguages, getSeverityName, resolvePath } from '../core/Settings';
+import { resolveFolderSettings, getFolderIgnoreWords, getIgnoreRegExp } from '../core/FolderSettings';
+import { DictionaryInfo, getBundledDictionaries, findDictionaries } from '../core/DictionaryDiscovery';
+import { resolveDocumentLanguage } from '../core/LanguageResolver';
+import { NO_LIMITS, limitErrors, getCollapsedCounts, describeError, describeHidden } from '../core/ProblemLimits';
+import { readLegacySettings } from '../core/SettingsMigration';
+import {
+	InitializationOptions, IgnoreWordRequest, IgnoreWordParams, LegacySettingsNotification, LegacySettingsParams,
+	IgnoreWordCommand, AddToDictionaryCommand, CheckDocumentCommand, CheckAllAnywayCommand
+} from './protocol';
+
+const SOURCE = 'Spell Checker';
+const CODE = 'unknown-word';
+
+// Path of a file: URI, e.g. 'file:///home/docs/a.md' or 'file:///c%3A/docs/a.md'
+function uriToPath(uri: string): string {
+	let decoded = decodeURIComponent(uri.replace(/^file:\/\//, ''));
+
+	// Windows paths start with a drive letter
+	if (/^\/[a-zA-Z]:/.test(decoded)) {
+		decoded = decoded.substring(1).replace(/\//g, '\\');
+	}
+
+	return decoded;
+}
+
+// Settings of a workspace folder, and of documents outside the folders when `uri`
+// is empty
+interface FolderState {
+	uri: string;
+	root: string;
+	settings: SpellSettings;
+	fileFilter: FileFilter;
+	projectDictionary: ProjectDictionary;
+}
+
+// The spell checker as a language server: diagnostics and hovers for open documents,
+// quick fixes with suggestions, and commands to ignore words or add them to the
+// project dictionary. Settings, ignored words and project dictionaries apply to
+// each workspace folder separately.
+export default class SpellCheckServer {
+	private documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+	private checker: SpellChecker = new SpellChecker();
+	private scheduler: CheckScheduler;
+	// Settings that aren't specific to a folder
+	private settings: SpellSettings = getDefaultSettings();
+	private settingsReady: Promise<void> = Promise.resolve();
+	private workspaceFolders: WorkspaceFolder[] = [];
+	private folders: FolderState[] = [];
+	// Settings of legacy spellchecker.json files by folder URI
+	private legacySettings: { [folder: string]: object } = {};
+	private options: InitializationOptions = {};
+	private documentLanguages: { [uri: string]: string[] } = {};
+	// The reported errors of each document, for hovers
+	private documentErrors: { [uri: string]: SpellingError[] } = {};
+	// Documents whose errors are all reported, see CheckAllAnywayCommand
+	private unlimitedDocuments: Set<string> = new Set();
+	private hasConfiguration: boolean = false;
+	private hasWorkspaceFolders: boolean = false;
+
+	constructor(private connection: IConnection, private extensionRoot: string) {
+		this.scheduler = new CheckScheduler(uri => this.checkDocument(uri));
+		this.checker.onLanguageFailure = (language, message) => this.connection.window.showErrorMessage(message);
+	}
+
+	public listen(): void {
+		this.connection.onInitialize(params => this.initialize(params));
+		this.connection.onInitialized(() => {
+			this.settingsReady = this.loadSettings();
+
+			if (this.hasWorkspaceFolders) {
+				this.connection.workspace.onDidChangeWorkspaceFolders(event => {
+					this.workspaceFolders = this.workspaceFolders
+						.filter(folder => !event.removed.some(removed => removed.uri == folder.uri))
+						.concat(event.added);
+					this.reload();
+				});
+			}
+		});
+		this.connection.onDidChangeConfiguration(change => this.reload(change.settings && change.settings.spellchecker));
+		this.connection.onDidChangeWatchedFiles(() => this.reloadProjectDictionaries());
+		this.connection.onNotification(LegacySettingsNotification, (params: LegacySettingsParams) => {
+			if (params.settings) {
+				this.legacySettings[params.folder] = params.settings;
+			}
+			else {
+				delete this.legacySettings[params.folder];
+			}
+			this.reload();
+		});
+		this.connection.onCodeAction(params => this.provideCodeActions(params));
+		this.connection.onHover(params => this.provideHover(params));
+		this.connection.onExecuteCommand(params => this.executeCommand(params));
+
+		this.documents.onDidChangeContent(change => {
+			// A negative interval means documents are only checked when opened or saved
+			if (this.settings.checkInterval >= 0) {
+				this.scheduler.schedule(change.document.uri, this.settings.checkInterval);
+			}
+		});
+		this.documents.onDidOpen(event => this.scheduler.schedule(event.document.uri, 0));
+		this.documents.onDidSave(event => this.scheduler.schedule(event.document.uri, 0));
+		this.documents.onDidClose(event => {
+			let uri = event.document.uri;
+			this.scheduler.cancel(uri);
+			this.checker.cancel(uri);
+			delete this.documentLanguages[uri];
+			delete this.documentErrors[uri];
+			this.unlimitedDocuments.delete(uri);
+			this.connection.sendDiagnostics({ uri: uri, diagnostics: [] });
+		});
+
+		this.connection.onShutdown(() => {
+			this.scheduler.dispose();
+			this.checker.dispose();
+		});
+
+		this.documents.listen(this.connection);
+		this.connection.listen();
+	}
+
+	private initialize(params: InitializeParams): InitializeResult {
+		if (params.workspaceFolders) {
+			this.workspaceFolders = params.workspaceFolders;
+		}
+		else if (params.rootUri) {
+			this.workspaceFolders = [{ uri: params.rootUri, name: path.basename(uriToPath(params.rootUri)) }];
+		}
+
+		this.options = params.initializationOptions || {};
+
+		let workspace = params.capabilities.workspace;
+		this.hasConfiguration = !!(workspace && workspace.configuration);
+		this.hasWorkspaceFolders = !!(workspace && workspace.workspaceFolders);
+
+		return {
+			capabilities: {
+				textDocumentSync: {
+					openClose: true,
+					change: TextDocumentSyncKind.Incremental,
+					save: { includeText: false }
+				},
+				codeActionProvider: {
+					codeActionKinds: [CodeActionKind.QuickFix]
+				},
+				hoverProvider: true,
+				executeCommandProvider: {
+					commands: [IgnoreWordCommand, AddToDictionaryCommand, CheckDocumentCommand, CheckAllAnywayCommand]
+				},
+				workspace: {
+					workspaceFolders: { supported: true, changeNotifications: true }
+				}
+			}
+		};
+	}
+
+	private reload(pushed?: object): void {
+		this.settingsReady = this.loadSettings(pushed);
+		this.settingsReady.then(() => this.recheckAll());
+	}
+
+	// Settings come from the client if it supports workspace/configuration or sends
+	// them along with the change notification, and from .vscode/settings.json otherwise.
+	// Only workspace/configuration has settings for each folder.
+	private loadSettings(pushed?: object): Promise<void> {
+		let values: Thenable<object[]>;
+		if (this.hasConfiguration) {
+			let items = [{ section: 'spellchecker' }].concat(this.workspaceFolders.map(folder => ({ scopeUri: folder.uri, section: 'spellchecker' })));
+			values = this.connection.workspace.getConfiguration(items);
+		}
+		else if (pushed) {
+			values = Promise.resolve([pushed].concat(this.workspaceFolders.map(() => pushed)));
+		}
+		else {
+			let folders = this.workspaceFolders.map(folder => this.readWorkspaceSettings(uriToPath(folder.uri)));
+			values = Promise.resolve([folders.length > 0 ? folders[0] : {}].concat(folders));
+		}
+
+		return Promise.resolve(values).then(values => {
+			this.checker.clearSuggestions();
+
+			if (!this.options.legacySettings) {
+				this.readLegacySettings();
+			}
+
+			// Documents outside the folders use the settings that aren't specific to one
+			this.folders = this.workspaceFolders.map((folder, i) => this.createFolderState(folder.uri, uriToPath(folder.uri), values[i + 1] || {}));
+			this.folders.push(this.createFolderState('', '', values[0] || {}));
+			this.settings = this.folders[this.folders.length - 1].settings;
+
+			let dictionaries: DictionaryInfo[] = [];
+			for (let folder of this.folders) {
+				for (let directory of folder.settings.dictionaryPaths) {
+					let resolved = resolvePath(directory, folder.root);
+					if (resolved) {
+						dictionaries = dictionaries.concat(findDictionaries(resolved, 'user'));
+					}
+				}
+			}
+
+			for (let pattern of this.checker.setIgnoreRegExp(getIgnoreRegExp(this.folders.map(folder => folder.settings)))) {
+				this.connection.window.showErrorMessage('Invalid regular expression in \'spellchecker.ignoreRegExp\' is skipped: ' + pattern);
+			}
+			this.checker.setDictionaries(dictionaries.concat(getBundledDictionaries(this.extensionRoot)));
+
+			return this.updateIgnoreWords();
+		}).catch(error => {
+			this.connection.window.showWarningMessage('Failed to load the spell checker settings: ' + error.message);
+		});
+	}
+
+	// Settings that can't be used, e.g. a string where a list belongs, are reported
+	// and the folder is checked with the defaults. A legacy spellchecker.json applies
+	// to its folder as in the extension.
+	private createFolderState(uri: string, root: string, values: object): FolderState {
+		try {
+			return this.createFolderStateFrom(uri, root, resolveFolderSettings(values, uri ? this.legacySettings[uri] : undefined));
+		}
+		catch (e) {
+			this.connection.window.showWarningMessage('The spell checker settings' + (root ? ' of \'' + root + '\'' : '') + ' are invalid, the defaults are used: ' + e.message);
+			return this.createFolderStateFrom(uri, root, getDefaultSettings());
+		}
+	}
+
+	private createFolderStateFrom(uri: string, root: string, settings: SpellSettings): FolderState {
+		let filename = resolvePath(settings.projectDictionary, root);
+		let dictionary = filename ? new ProjectDictionary(filename) : null;
+		if (dictionary && dictionary.loadError) {
+			this.connection.window.showWarningMessage(dictionary.loadError);
+		}
+
+		return {
+			uri: uri,
+			root: root,
+			settings: settings,
+			fileFilter: new FileFilter(root, settings),
+			projectDictionary: dictionary
+		};
+	}
+
+	// A settings file that can't be read or parsed is reported and left out
+	private readWorkspaceSettings(root: string): object {
+		let filename = path.join(root, '.vscode', 'settings.json');
+		if (!fs.existsSync(filename)) {
+			return {};
+		}
+
+		try {
+			return readSettingsFile(filename);
+		}
+		catch (e) {
+			this.connection.window.showWarningMessage('Failed to read \'' + filename + '\', the default spell checker settings are used: ' + e.message);
+			return {};
+		}
+	}
+
+	private readLegacySettings(): void {
+		this.legacySettings = {};
+
+		for (let folder of this.workspaceFolders) {
+			let filename = path.join(uriToPath(folder.uri), '.vscode', 'spellchecker.json');
+			if (!fs.existsSync(filename)) {
+				continue;
+			}
+
+			try {
+				this.legacySettings[folder.uri] = readLegacySettings(filename).settings;
+			}
+			catch (e) {
+				this.connection.console.error('Failed to read \'' + filename + '\': ' + e.message);
+			}
+		}
+	}
+
+	// The folder that contains `uri`; nested folders take precedence
+	private getFolder(uri: string): FolderState {
+		let found: FolderState = null;
+		for (let folder of this.folders) {
+			let prefix = folder.uri.replace(/\/$/, '') + '/';
+			if (folder.uri && uri.indexOf(prefix) == 0 && (!found || folder.uri.length > found.uri.length)) {
+				found = folder;
+			}
+		}
+
+		return found || this.folders[this.folders.length - 1] || this.createFolderStateFrom('', '', this.settings);
+	}
+
+	private updateIgnoreWords(): Promise<void> {
+		let words: { [folder: string]: string[] } = {};
+		for (let folder of this.folders) {
+			words[folder.uri] = getFolderIgnoreWords(folder.settings, folder.projectDictionary);
+		}
+
+		return this.checker.setFolderIgnoreWords(words);
+	}
+
+	private reloadProjectDictionaries(): void {
+		let changed = false;
+		for (let folder of this.folders) {
+			if (folder.projectDictionary) {
+				let before = folder.projectDictionary.getWords().join('\n');
+				folder.projectDictionary.load();
+				if (folder.projectDictionary.loadError) {
+					this.connection.window.showWarningMessage(folder.projectDictionary.loadError);
+				}
+				changed = changed || folder.projectDictionary.getWords().join('\n') != before;
+			}
+		}
+
+		if (changed) {
+			this.updateIgnoreWords().then(() => this.recheckAll());
+		}
+	}
+
+	private recheckAll(): void {
+		for (let document of this.documents.all()) {
+			this.scheduler.schedule(document.uri, 0);
+		}
+	}
+
+	private shouldCheck(document: TextDocument, folder: FolderState): boolean {
+		if (document.uri.indexOf('file:') != 0) {
+			return false;
+		}
+
+		if (this.settings.documentTypes.indexOf(document.languageId) < 0) {
+			return false;
+		}
+
+		return folder.fileFilter.matches(uriToPath(document.uri));
+	}
+
+	private checkDocument(uri: string): Promise<void> {
+		return this.settingsReady.then(() => {
+			let document = this.documents.get(uri);
+			if (!document) {
+				return;
+			}
+
+			let folder = this.getFolder(uri);
+			if (!this.shouldCheck(document, folder)) {
+				delete this.documentErrors[uri];
+				this.connection.sendDiagnostics({ uri: uri, diagnostics: [] });
+				return;
+			}
+
+			let version = document.version;
+			let text = document.getText();
+			let resolved = resolveDocumentLanguage(text, this.checker.getAvailableLanguages());
+			let languages = resolved ? resolved.languages : getLanguages(folder.settings.language);
+
+			return this.checker.check(uri, text, document.languageId, languages, 0, text.length, folder.uri).then(result => {
+				// Edits made while checking scheduled another check
+				let current = this.documents.get(uri);
+				if (result === null || !current || current.version != version) {
+					return;
+				}
+
+				this.documentLanguages[uri] = result.languages;
+
+				let limited = limitErrors(result.errors, this.unlimitedDocuments.has(uri) ? NO_LIMITS : folder.settings);
+				let collapsed = getCollapsedCounts(limited);
+				this.documentErrors[uri] = limited.shown;
+
+				let diagnostics: Diagnostic[] = limited.shown.map((error, index) => {
+					return {
+						range: { start: document.positionAt(error.offset), end: document.positionAt(error.offset + error.length) },
+						message: describeError(error.word, collapsed[index]),
+						severity: DiagnosticSeverity[getSeverityName(folder.settings)],
+						source: SOURCE,
+						code: CODE
+					};
+				});
+
+				if (limited.hidden > 0) {
+					diagnostics.push({
+						range: { start: document.positionAt(0), end: document.positionAt(0) },
+						message: describeHidden(limited.hidden, result.errors.length),
+						severity: DiagnosticSeverity.Information,
+						source: SOURCE
+					});
+				}
+
+				this.connection.sendDiagnostics({ uri: uri, diagnostics: diagnostics });
+			});
+		}).catch(error => {
+			this.connection.console.error('Spell check failed for ' + uri + ': ' + error.message);
+		});
+	}
+
+	private provideCodeActions(params: CodeActionParams): Promise<CodeAction[]> {
+		let uri = params.textDocument.uri;
+		let document = this.documents.get(uri);
+		let languages = this.documentLanguages[uri];
+		if (!document || !languages) {
+			return Promise.resolve([]);
+		}
+
+		let folder = this.getFolder(uri);
+		let diagnostics = params.context.diagnostics.filter(diagnostic => diagnostic.source == SOURCE && diagnostic.code == CODE);
+		let words = diagnostics.map(diagnostic => document.getText(diagnostic.range).replace(/’/g, '\''));
+
+		// Only one fix can be preferred: the top suggestion for the error at the start
+		// of the range, or else for the first error
+		let start = document.offsetAt(params.range.start);
+		let preferred = diagnostics.find(diagnostic => document.offsetAt(diagnostic.range.start) <= start && start <= document.offsetAt(diagnostic.range.end)) || diagnostics[0];
+
+		return Promise.all(words.map(word => this.checker.suggest(word, languages))).then(found => {
+			let actions: CodeAction[] = [];
+			let seen: Set<string> = new Set();
+
+			diagnostics.forEach((diagnostic, i) => {
+				let word = words[i];
+				let suggestions = found[i];
+
+				suggestions.forEach((suggestion, index) => {
+					let title = 'Replace with \'' + suggestion.word + '\'';
+					if (languages.length > 1) {
+						title += ' (' + suggestion.language + ')';
+					}
+
+					actions.push({
+						title: title,
+						kind: CodeActionKind.QuickFix,
+						diagnostics: [diagnostic],
+						isPreferred: diagnostic === preferred && index == 0,
+						edit: { changes: { [document.uri]: [TextEdit.replace(diagnostic.range, suggestion.word)] } }
+					});
+				});
+
+				if (seen.has(word)) {
+					return;
+				}
+				seen.add(word);
+
+				// Fixing every occurrence only makes sense with the top suggestion
+				let occurrences = this.findOccurrences(document, word);
+				if (suggestions.length > 0 && occurrences.length > 1) {
+					actions.push({
+						title: 'Replace all occurrences of \'' + word + '\' in this file with \'' + suggestions[0].word + '\'',
+						kind: CodeActionKind.QuickFix,
+						diagnostics: [diagnostic],
+						edit: { changes: { [document.uri]: occurrences.map(range => TextEdit.replace(range, suggestions[0].word)) } }
+					});
+				}
+
+				// Words are ignored in the client's settings, or else in the project dictionary
+				if (this.options.ignoreWord || folder.projectDictionary) {
+					actions.push({
+						title: 'Ignore \'' + word + '\'',
+						kind: CodeActionKind.QuickFix,
+						diagnostics: [diagnostic],
+						command: { title: 'Ignore', command: IgnoreWordCommand, arguments: [word, uri] }
+					});
+				}
+
+				if (this.options.ignoreWord && folder.projectDictionary) {
+					actions.push({
+						title: 'Add \'' + word + '\' to project dictionary',
+						kind: CodeActionKind.QuickFix,
+						diagnostics: [diagnostic],
+						command: { title: 'Add to project dictionary', command: AddToDictionaryCommand, arguments: [word, uri] }
+					});
+				}
+			});
+
+			return actions;
+		}).catch(error => {
+			this.connection.console.error('Failed to find suggestions: ' + error.message);
+			return [];
+		});
+	}
+
+	// The reported errors of `word` that edits since the check haven't changed
+	private findOccurrences(document: TextDocument, word: string): Range[] {
+		let errors = this.documentErrors[document.uri] || [];
+
+		return errors
+			.filter(error => error.word == word)
+			.map(error => ({ start: document.positionAt(error.offset), end: document.positionAt(error.offset + error.length) }))
+			.filter(range => document.getText(range).replace(/’/g, '\'') == word);
+	}
+
+	// The misspelled word under the cursor, with its suggestions
+	private provideHover(params: TextDocumentPositionParams): Promise<Hover> {
+		let uri = params.textDocument.uri;
+		let document = this.documents.get(uri);
+		let languages = this.documentLanguages[uri];
+		let errors = this.documentErrors[uri];
+		if (!document || !languages || !errors) {
+			return Promise.resolve(null);
+		}
+
+		let offset = document.offsetAt(params.position);
+		let error = errors.find(error => offset >= error.offset && offset <= error.offset + error.length);
+
+		// Edits since the check can have moved the word
+		let range = error ? { start: document.positionAt(error.offset), end: document.positionAt(error.offset + error.length) } : null;
+		if (!error || document.getText(range).replace(/’/g, '\'') != error.word) {
+			return Promise.resolve(null);
+		}
+
+		return this.checker.suggest(error.word, languages).then(suggestions => {
+			let lines = ['**' + error.word + '** isn\'t in the ' + languages.join(', ') + (languages.length > 1 ? ' dictionaries' : ' dictionary')];
+
+			if (suggestions.length > 0) {
+				let words = suggestions.map(suggestion => languages.length > 1 ? suggestion.word + ' (' + suggestion.language + ')' : suggestion.word);
+				lines.push('', 'Suggestions: ' + words.join(', '));
+			}
+
+			return { contents: { kind: MarkupKind.Markdown, value: lines.join('\n') }, range: range };
+		}).catch(e => {
+			this.connection.console.error('Failed to find suggestions: ' + e.message);
+			return null;
+		});
+	}
+
+	private executeCommand(params: ExecuteCommandParams): Promise<void> {
+		if (params.command == CheckDocumentCommand || params.command == CheckAllAnywayCommand) {
+			let document: string = params.arguments && params.arguments[0];
+			if (typeof document != 'string' || !this.documents.get(document)) {
+				return Promise.resolve();
+			}
+
+			if (params.command == CheckAllAnywayCommand) {
+				this.unlimitedDocuments.add(document);
+			}
+			this.scheduler.cancel(document);
+			return this.checkDocument(document);
+		}
+
+		let word: string = params.arguments && params.arguments[0];
+		let uri: string = params.arguments && params.arguments[1] || '';
+		if (typeof word != 'string' || word.length == 0) {
+			return Promise.resolve();
+		}
+
+		if (params.command == IgnoreWordCommand && this.options.ignoreWord) {
+			// The settings change notification checks the documents again
+			let request: IgnoreWordParams = { word: word, uri: uri };
+			return Promise.resolve(this.connection.sendRequest(IgnoreWordRequest, request)).then(() => undefined, error => {
+				this.connection.window.showErrorMessage('Failed to ignore \'' + word + '\': ' + error.message);
+			});
+		}
+		else if (params.command == IgnoreWordCommand || params.command == AddToDictionaryCommand) {
+			return this.addToProjectDictionary(word, uri);
+		}
+
+		return Promise.resolve();
+	}
+
+	// Clients that don't save ignored words get them in the project dictionary too
+	private addToProjectDictionary(word: string, uri: string): Promise<void> {
+		let dictionary = this.getFolder(uri).projectDictionary;
+		if (!dictionary) {
+			this.connection.window.showErrorMessage('Set \'spellchecker.projectDictionary\' to add words to a project dictionary.');
+			return Promise.resolve();
+		}
+
+		try {
+			dictionary.addWords([word]);
+		}
+		catch (e) {
+			this.connection.window.showErrorMessage('Failed to update the project dictionary: ' + e.message);
+			return Promise.resolve();
+		}
+
+		return this.updateIgnoreWords().then(() => this.recheckAll());
+	}
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+'use strict';
+
+import * as path from 'path';
+import { createConnection } from 'vscode-languageserver';
+import SpellCheckServer from './SpellCheckServer';
+
+// The language server talks over stdin and stdout, so nothing else may write to stdout
+let connection = createConnection(process.stdin, process.stdout);
+
+// out/src/server/main.js is three folders below the extension
+new SpellCheckServer(connection, path.join(__dirname, '..', '..', '..')).listen();
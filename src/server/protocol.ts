@@ -0,0 +1,39 @@
+'use strict';
+
+// Messages between the spell check server and clients that support them. A client
+// announces them in the initialization options; other clients work without them.
+
+export interface InitializationOptions {
+	// The client saves ignored words in its settings, see IgnoreWordRequest. Without it
+	// the server adds them to the project dictionary of the document's folder.
+	ignoreWord?: boolean;
+	// The client sends the settings of legacy spellchecker.json files, see
+	// LegacySettingsNotification, instead of the server reading them
+	legacySettings?: boolean;
+}
+
+// Sent by the server to add a word to the ignoreWordsList setting of the folder of
+// `uri`. The client's settings change notification then updates the server.
+export const IgnoreWordRequest: string = 'spellchecker/ignoreWord';
+
+export interface IgnoreWordParams {
+	word: string;
+	uri: string;
+}
+
+// Sent by the client with the settings of the legacy spellchecker.json of `folder`,
+// without `settings` once the file no longer applies
+export const LegacySettingsNotification: string = 'spellchecker/legacySettings';
+
+export interface LegacySettingsParams {
+	folder: string;
+	settings?: object;
+}
+
+// Commands of the server, run with workspace/executeCommand. Those for a word take
+// the word and the URI of its document, the others the URI of a document.
+export const IgnoreWordCommand: string = 'spellchecker.server.ignoreWord';
+export const AddToDictionaryCommand: string = 'spellchecker.server.addToDictionary';
+export const CheckDocumentCommand: string = 'spellchecker.server.checkDocument';
+// Check a document again with every error shown, until it is closed
+export const CheckAllAnywayCommand: string = 'spellchecker.server.checkAllAnyway';
@@ -0,0 +1,202 @@
+'use strict';
+
+import * as assert from 'assert';
+import CheckScheduler, { Clock } from '../src/core/CheckScheduler';
+
+// Runs timers only when the test advances the time
+class FakeClock implements Clock {
+	private time: number = 0;
+	private nextId: number = 1;
+	private timers: { id: number, at: number, callback: () => void }[] = [];
+
+	public now(): number {
+		return this.time;
+	}
+
+	public setTimeout(callback: () => void, ms: number): any {
+		let id = this.nextId++;
+		this.timers.push({ id: id, at: this.time + ms, callback: callback });
+		return id;
+	}
+
+	public clearTimeout(handle: any): void {
+		this.timers = this.timers.filter(timer => timer.id !== handle);
+	}
+
+	// Advance the time by `ms`, running the timers that are due in order, including
+	// those they set
+	public tick(ms: number): void {
+		let end = this.time + ms;
+
+		for (;;) {
+			let due = this.timers.filter(timer => timer.at <= end);
+			if (due.length == 0) {
+				break;
+			}
+
+			let next = due.reduce((first, timer) => timer.at < first.at ? timer : first);
+			this.timers = this.timers.filter(timer => timer !== next);
+			this.time = next.at;
+			next.callback();
+		}
+
+		this.time = end;
+	}
+}
+
+// Let settled promises run their callbacks
+function flush(): Promise<void> {
+	return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+suite('CheckScheduler', () => {
+	let clock: FakeClock;
+	let runs: string[];
+
+	setup(() => {
+		clock = new FakeClock();
+		runs = [];
+	});
+
+	test('checks a document right away if it wasn\'t checked within the interval', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		clock.tick(1500);
+		scheduler.schedule('a', 1000);
+		clock.tick(0);
+
+		assert.deepEqual(runs, ['a', 'a']);
+	});
+
+	test('checks a document right away the first time', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		clock.tick(0);
+
+		assert.deepEqual(runs, ['a']);
+	});
+
+	test('waits until edits stop for twice the interval after a recent check', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		clock.tick(100);
+		scheduler.schedule('a', 1000);
+		clock.tick(800);
+		scheduler.schedule('a', 1000);
+		clock.tick(1999);
+		assert.deepEqual(runs, ['a']);
+
+		clock.tick(1);
+		assert.deepEqual(runs, ['a', 'a']);
+	});
+
+	test('debounces each document separately', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		clock.tick(0);
+		scheduler.schedule('a', 1000);
+		scheduler.schedule('b', 1000);
+		clock.tick(0);
+
+		assert.deepEqual(runs, ['a', 'b']);
+	});
+
+	test('cancel forgets scheduled and due checks', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		assert.ok(scheduler.isPending('a'));
+		scheduler.cancel('a');
+		assert.ok(!scheduler.isPending('a'));
+		clock.tick(5000);
+
+		assert.deepEqual(runs, []);
+	});
+
+	test('cancel lets the next edit be checked right away', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		clock.tick(0);
+		scheduler.cancel('a');
+		scheduler.schedule('a', 1000);
+		clock.tick(0);
+
+		assert.deepEqual(runs, ['a', 'a']);
+	});
+
+	test('checks visible documents first', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, key => key == 'visible', clock);
+
+		scheduler.schedule('hidden', 1000);
+		scheduler.schedule('visible', 1000);
+		clock.tick(0);
+
+		assert.deepEqual(runs, ['visible', 'hidden']);
+	});
+
+	test('runs one check at a time', () => {
+		let finish: () => void;
+		let scheduler = new CheckScheduler(key => {
+			runs.push(key);
+			return new Promise<void>(resolve => finish = resolve);
+		}, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		scheduler.schedule('b', 1000);
+		clock.tick(0);
+		assert.deepEqual(runs, ['a']);
+
+		finish();
+		return flush().then(() => {
+			clock.tick(0);
+			assert.deepEqual(runs, ['a', 'b']);
+		});
+	});
+
+	test('continues after a check fails', () => {
+		let scheduler = new CheckScheduler(key => {
+			runs.push(key);
+			return key == 'a' ? Promise.reject(new Error('worker stopped')) : Promise.resolve();
+		}, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		scheduler.schedule('b', 1000);
+		clock.tick(0);
+
+		return flush().then(() => {
+			clock.tick(0);
+			assert.deepEqual(runs, ['a', 'b']);
+		});
+	});
+
+	test('continues after a check throws', () => {
+		let scheduler = new CheckScheduler(key => {
+			runs.push(key);
+			if (key == 'a') {
+				throw new Error('failed');
+			}
+		}, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		scheduler.schedule('b', 1000);
+		assert.throws(() => clock.tick(0));
+		clock.tick(0);
+
+		assert.deepEqual(runs, ['a', 'b']);
+	});
+
+	test('dispose stops scheduled checks', () => {
+		let scheduler = new CheckScheduler(key => { runs.push(key); }, undefined, clock);
+
+		scheduler.schedule('a', 1000);
+		scheduler.dispose();
+		clock.tick(5000);
+
+		assert.deepEqual(runs, []);
+	});
+});
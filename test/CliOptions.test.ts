@@ -0,0 +1,30 @@
+'use strict';
+
+import * as assert from 'assert';
+import { parseArgs } from '../src/cli/CliOptions';
+
+suite('parseArgs', () => {
+	test('uses the defaults without arguments', () => {
+		assert.deepEqual(parseArgs([]), { root: '', config: '', format: 'text', languages: [], suggestions: true, patterns: [], help: false });
+	});
+
+	test('reads options and patterns in any order', () => {
+		let options = parseArgs(['docs/**/*.md', '--root', 'site', '--format', 'sarif', '--language', 'en_US, es_ANY,', '--no-suggestions', 'README.md', '--config', 'ci.json', '-h']);
+
+		assert.deepEqual(options, {
+			root: 'site',
+			config: 'ci.json',
+			format: 'sarif',
+			languages: ['en_US', 'es_ANY'],
+			suggestions: false,
+			patterns: ['docs/**/*.md', 'README.md'],
+			help: true
+		});
+	});
+
+	test('rejects unknown options, formats and missing values', () => {
+		assert.throws(() => parseArgs(['--verbose']), /Unknown option --verbose/);
+		assert.throws(() => parseArgs(['--format', 'xml']), /Unknown format 'xml'/);
+		assert.throws(() => parseArgs(['--root']), /Missing value for --root/);
+	});
+});
@@ -0,0 +1,61 @@
+'use strict';
+
+import * as assert from 'assert';
+import TextExtractorRegistry from '../src/core/extractors/TextExtractorRegistry';
+import { CODE_SYNTAX } from '../src/core/extractors/CodeSyntax';
+
+function extract(languageId: string, text: string): string[] {
+	let tokens = TextExtractorRegistry.createDefault().get(languageId).extract(text);
+
+	for (let token of tokens) {
+		assert.equal(text.substr(token.offset, token.word.length), token.word);
+	}
+
+	return tokens.map(token => token.word);
+}
+
+suite('CodeCommentExtractor', () => {
+	test('checks only comments and strings', () => {
+		let text = 'const wrod = 1; // a commment\n/* block\n   text */ let s = "in strng";';
+
+		assert.deepEqual(extract('typescript', text), ['a', 'commment', 'block', 'text', 'in', 'strng']);
+	});
+
+	test('skips escape sequences and interpolations in strings', () => {
+		let text = 'let s = `line\\nnext ${userNmae} done`;';
+
+		assert.deepEqual(extract('typescript', text), ['line', 'next', 'done']);
+	});
+
+	test('splits identifiers mentioned in comments', () => {
+		assert.deepEqual(extract('javascript', '// calls getUserName'), ['calls', 'get', 'User', 'Name']);
+	});
+
+	test('reads comment markers in strings and quotes in comments as text', () => {
+		let text = 'x = "not // a comment" # it\'s "fine"\n';
+
+		assert.deepEqual(extract('python', text), ['not', 'a', 'comment', 'it\'s', 'fine']);
+	});
+
+	test('reads multi-line strings of Python', () => {
+		assert.deepEqual(extract('python', 'def f():\n    """Returns the\n    answr."""\n    return 42'), ['Returns', 'the', 'answr']);
+	});
+
+	test('leaves character literals of Rust out', () => {
+		assert.deepEqual(extract('rust', 'let c = \'x\'; // a charr'), ['a', 'charr']);
+	});
+
+	test('reads block comments of Lua and Haskell', () => {
+		assert.deepEqual(extract('lua', '--[[ long\ncommment ]] x = 1 -- short'), ['long', 'commment', 'short']);
+		assert.deepEqual(extract('haskell', '{- nested\ntext -} main = 1 -- done'), ['nested', 'text', 'done']);
+	});
+
+	test('lists every language once', () => {
+		let ids: string[] = [];
+		for (let code of CODE_SYNTAX) {
+			ids = ids.concat(code.languageIds);
+		}
+
+		assert.deepEqual(ids.filter((id, index) => ids.indexOf(id) != index), []);
+	});
+});
@@ -0,0 +1,148 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import FileFilter, { FileFilterOptions, globToRegExp } from '../src/core/FileFilter';
+
+function options(values: Partial<FileFilterOptions>): FileFilterOptions {
+	return Object.assign({ include: [], exclude: [], ignoreFileExtensions: [], ignoreFilenames: [], useGitignore: true }, values);
+}
+
+suite('FileFilter', () => {
+	suite('globToRegExp', () => {
+		test('matches within a folder with * and ?', () => {
+			let regex = globToRegExp('docs/*.m?');
+
+			assert.ok(regex.test('docs/a.md'));
+			assert.ok(!regex.test('docs/a.mdx'));
+			assert.ok(!regex.test('docs/sub/a.md'));
+		});
+
+		test('matches any number of folders with **', () => {
+			let regex = globToRegExp('docs/**/*.md');
+
+			assert.ok(regex.test('docs/a.md'));
+			assert.ok(regex.test('docs/a/b/c.md'));
+			assert.ok(!regex.test('src/a.md'));
+			assert.ok(globToRegExp('vendor/**').test('vendor/a/b.txt'));
+		});
+
+		test('matches groups and character classes', () => {
+			assert.ok(globToRegExp('*.{md,txt}').test('a.txt'));
+			assert.ok(!globToRegExp('*.{md,txt}').test('a.rst'));
+			assert.ok(globToRegExp('file[0-9].md').test('file3.md'));
+			assert.ok(!globToRegExp('file[!0-9].md').test('file3.md'));
+		});
+
+		test('escapes regular expression characters', () => {
+			assert.ok(globToRegExp('a+b(1).md').test('a+b(1).md'));
+			assert.ok(!globToRegExp('a.md').test('abmd'));
+		});
+	});
+
+	suite('matches', () => {
+		let root: string;
+		let created: string[];
+
+		let write = (relative: string, content: string) => {
+			let filename = path.join(root, relative);
+			let folder = path.dirname(filename);
+			let folders: string[] = [];
+			while (!fs.existsSync(folder)) {
+				folders.unshift(folder);
+				folder = path.dirname(folder);
+			}
+			for (let f of folders) {
+				fs.mkdirSync(f);
+				created.unshift(f);
+			}
+			fs.writeFileSync(filename, content);
+			created.unshift(filename);
+		};
+
+		let file = (relative: string) => path.join(root, relative);
+
+		setup(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'spellchecker-'));
+			created = [];
+		});
+
+		teardown(() => {
+			// Files were added in front of their folders
+			for (let f of created) {
+				if (fs.statSync(f).isDirectory()) {
+					fs.rmdirSync(f);
+				}
+				else {
+					fs.unlinkSync(f);
+				}
+			}
+			fs.rmdirSync(root);
+		});
+
+		test('applies include and exclude globs', () => {
+			let filter = new FileFilter(root, options({ include: ['docs/**', '*.txt'], exclude: ['CHANGELOG*.md'] }));
+
+			assert.ok(filter.matches(file('docs/guide.md')));
+			assert.ok(filter.matches(file('src/notes.txt')));
+			assert.ok(!filter.matches(file('src/readme.md')));
+			assert.ok(!filter.matches(file('docs/CHANGELOG-1.md')));
+		});
+
+		test('applies the older extension and file name settings', () => {
+			let filter = new FileFilter(root, options({ ignoreFileExtensions: ['.log'], ignoreFilenames: ['NOTICE.md'] }));
+
+			assert.ok(!filter.matches(file('a.log')));
+			assert.ok(!filter.matches(file('docs/NOTICE.md')));
+			assert.ok(filter.matches(file('docs/a.md')));
+		});
+
+		test('only matches file name globs outside the root', () => {
+			let filter = new FileFilter(root, options({ include: ['docs/**', '*.md'] }));
+
+			assert.ok(filter.matches(path.join(os.tmpdir(), 'elsewhere', 'a.md')));
+			assert.ok(!filter.matches(path.join(os.tmpdir(), 'elsewhere', 'docs', 'a.txt')));
+		});
+
+		test('skips files ignored by git, with negation', () => {
+			write('.gitignore', '# build output\n*.log\nbuild/\n!keep.log\n');
+			let filter = new FileFilter(root, options({}));
+
+			assert.ok(!filter.matches(file('debug.log')));
+			assert.ok(!filter.matches(file('src/debug.log')));
+			assert.ok(filter.matches(file('keep.log')));
+			assert.ok(!filter.matches(file('build/out.md')));
+			assert.ok(filter.matches(file('build.md')));
+		});
+
+		test('anchors patterns with a slash to the folder of their .gitignore', () => {
+			write('.gitignore', '/root.md\ndocs/generated\n');
+			write('sub/.gitignore', 'local.md\n/anchored.md\n');
+			let filter = new FileFilter(root, options({}));
+
+			assert.ok(!filter.matches(file('root.md')));
+			assert.ok(filter.matches(file('sub/root.md')));
+			assert.ok(!filter.matches(file('docs/generated/a.md')));
+			assert.ok(filter.matches(file('other/docs/generated/a.md')));
+			assert.ok(!filter.matches(file('sub/deep/local.md')));
+			assert.ok(filter.matches(file('local.md')));
+			assert.ok(!filter.matches(file('sub/anchored.md')));
+			assert.ok(filter.matches(file('sub/deep/anchored.md')));
+		});
+
+		test('does not include files again inside an ignored folder', () => {
+			write('.gitignore', 'vendor/\n!vendor/readme.md\n');
+			let filter = new FileFilter(root, options({}));
+
+			assert.ok(!filter.matches(file('vendor/readme.md')));
+		});
+
+		test('checks ignored files when useGitignore is off', () => {
+			write('.gitignore', '*.md\n');
+
+			assert.ok(new FileFilter(root, options({ useGitignore: false })).matches(file('a.md')));
+		});
+	});
+});
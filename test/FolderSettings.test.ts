@@ -0,0 +1,66 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ProjectDictionary from '../src/core/ProjectDictionary';
+import { getDefaultSettings } from '../src/core/Settings';
+import { resolveFolderSettings, getFolderIgnoreWords, getIgnoreRegExp } from '../src/core/FolderSettings';
+
+suite('resolveFolderSettings', () => {
+	test('overwrites the defaults with the values', () => {
+		let settings = resolveFolderSettings({ 'spellchecker.language': 'fr', maxProblems: 0 });
+
+		assert.equal(settings.language, 'fr');
+		assert.equal(settings.maxProblems, 0);
+		assert.equal(settings.suggestionSeverity, 'Warning');
+	});
+
+	test('merges the lists of legacy settings and replaces other values', () => {
+		let settings = resolveFolderSettings({ ignoreWordsList: ['alpha'] }, { ignoreWordsList: ['beta', 'alpha'], language: 'de' });
+
+		assert.deepEqual(settings.ignoreWordsList, ['beta', 'alpha']);
+		assert.equal(settings.language, 'de');
+	});
+
+	test('skips legacy keys that aren\'t settings', () => {
+		let settings = resolveFolderSettings({}, { unknown: true, hasOwnProperty: 1 });
+
+		assert.equal(settings.hasOwnProperty('unknown'), false);
+		assert.equal(typeof settings.hasOwnProperty, 'function');
+	});
+});
+
+suite('getFolderIgnoreWords', () => {
+	let folder: string;
+
+	setup(() => {
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'spellchecker-'));
+	});
+
+	teardown(() => {
+		fs.unlinkSync(path.join(folder, 'words.dic'));
+		fs.rmdirSync(folder);
+	});
+
+	test('adds the words of the project dictionary to those of the settings', () => {
+		fs.writeFileSync(path.join(folder, 'words.dic'), '# Names\nkubectl\n');
+		let settings = getDefaultSettings();
+		settings.ignoreWordsList = ['minikube'];
+
+		assert.deepEqual(getFolderIgnoreWords(settings, new ProjectDictionary(path.join(folder, 'words.dic'))), ['minikube', 'kubectl']);
+		assert.deepEqual(getFolderIgnoreWords(settings, null), ['minikube']);
+	});
+});
+
+suite('getIgnoreRegExp', () => {
+	test('uses the expressions of every folder once', () => {
+		let first = getDefaultSettings();
+		first.ignoreRegExp = ['/\\d+/g', '/x/g', '/x/g'];
+		let second = getDefaultSettings();
+		second.ignoreRegExp = ['/x/g', '/y/g'];
+
+		assert.deepEqual(getIgnoreRegExp([first, second]), ['/\\d+/g', '/x/g', '/y/g']);
+	});
+});
@@ -0,0 +1,63 @@
+'use strict';
+
+import * as assert from 'assert';
+import IgnoreWords from '../src/core/IgnoreWords';
+
+suite('IgnoreWords', () => {
+	test('parses casing and affix flags', () => {
+		assert.deepEqual(IgnoreWords.parse(' ~kubectl '), { word: 'kubectl', flags: '', caseInsensitive: true });
+		assert.deepEqual(IgnoreWords.parse('widget/SM'), { word: 'widget', flags: 'SM', caseInsensitive: false });
+		assert.deepEqual(IgnoreWords.parse('/usr'), { word: '/usr', flags: '', caseInsensitive: false });
+		assert.deepEqual(IgnoreWords.parse('don’t'), { word: 'don\'t', flags: '', caseInsensitive: false });
+		assert.equal(IgnoreWords.parse('~'), null);
+	});
+
+	test('matches a word, capitalized and in capitals', () => {
+		let words = new IgnoreWords(['Kubernetes', 'iPhone']);
+
+		assert.ok(words.matches('Kubernetes'));
+		assert.ok(words.matches('KUBERNETES'));
+		assert.ok(!words.matches('kubernetes'));
+		assert.ok(words.matches('IPhone'));
+		assert.ok(!words.matches('iphone'));
+	});
+
+	test('matches any casing of entries starting with ~', () => {
+		let words = new IgnoreWords(['~kubectl']);
+
+		assert.ok(words.matches('kubectl'));
+		assert.ok(words.matches('KubeCTL'));
+	});
+
+	test('matches possessives and curly apostrophes', () => {
+		let words = new IgnoreWords(['Kubernetes', 'don\'t']);
+
+		assert.ok(words.matches('Kubernetes\'s'));
+		assert.ok(words.matches('Kubernetes’s'));
+		assert.ok(words.matches('Kubernetes\''));
+		assert.ok(words.matches('don’t'));
+	});
+
+	test('leaves affixed forms to the dictionary', () => {
+		let words = new IgnoreWords(['widget/SM']);
+
+		assert.ok(words.matches('widget'));
+		assert.ok(!words.matches('widgets'));
+	});
+
+	test('matches only listed words', () => {
+		let words = new IgnoreWords(['constructor']);
+
+		assert.ok(words.matches('constructor'));
+		assert.ok(!words.matches('toString'));
+		assert.ok(!words.matches('hasOwnProperty'));
+	});
+
+	test('writes dictionary lines with flags and possessives', () => {
+		assert.deepEqual(new IgnoreWords(['widget/SM', '~KubeCtl', 'iPhone']).toDictionaryLines(), [
+			'widget/SM', 'widget\'s',
+			'kubectl', 'kubectl\'s',
+			'iPhone', 'iPhone\'s', 'IPhone', 'IPhone\'s'
+		]);
+	});
+});
@@ -0,0 +1,59 @@
+'use strict';
+
+import * as assert from 'assert';
+import InlineDirectives from '../src/core/InlineDirectives';
+
+// The words left after masking, for readable assertions
+function words(text: string): string[] {
+	return text.split(/\s+/).filter(word => word.length > 0);
+}
+
+suite('InlineDirectives', () => {
+	test('skips the text between disable and enable', () => {
+		let text = 'one\n<!-- spellchecker: disable -->\ntwo\n<!-- spellchecker: enable -->\nthree';
+		let masked = InlineDirectives.parse(text).mask(text);
+
+		assert.equal(masked.length, text.length);
+		assert.deepEqual(words(masked), ['one', 'three']);
+		assert.equal(masked.split('\n').length, 5);
+	});
+
+	test('skips to the end of the document without enable', () => {
+		let text = 'one\nspellchecker: disable\ntwo\nthree';
+
+		assert.deepEqual(words(InlineDirectives.parse(text).mask(text)), ['one']);
+	});
+
+	test('skips only the line after disable-next-line', () => {
+		let text = 'one\r\nspellchecker: disable-next-line\r\ntwo\r\nthree';
+		let masked = InlineDirectives.parse(text).mask(text);
+
+		assert.deepEqual(words(masked), ['one', 'three']);
+		assert.equal(masked.indexOf('three'), text.indexOf('three'));
+	});
+
+	test('collects the words of ignore directives', () => {
+		let text = '<!-- spellchecker: ignore kubectl, minikube -->\nspellchecker: ignore helm\nkubectl';
+		let directives = InlineDirectives.parse(text);
+
+		assert.deepEqual(directives.ignoreWords, ['kubectl', 'minikube', 'helm']);
+		assert.deepEqual(words(directives.mask(text)), ['kubectl']);
+	});
+
+	test('masks a part of the document at its offset', () => {
+		let text = 'one <!-- spellchecker: disable --> two <!-- spellchecker: enable --> three';
+		let directives = InlineDirectives.parse(text);
+		let start = text.indexOf('two') - 2;
+
+		assert.deepEqual(words(directives.mask(text.substring(start), start)), ['three']);
+	});
+
+	test('compares the directives, not the text around them', () => {
+		let a = InlineDirectives.parse('one\n% spellchecker: ignore foo\ntwo');
+		let b = InlineDirectives.parse('changed text\n% spellchecker: ignore foo');
+		let c = InlineDirectives.parse('one\n% spellchecker: ignore bar\ntwo');
+
+		assert.ok(a.equals(b));
+		assert.ok(!a.equals(c));
+	});
+});
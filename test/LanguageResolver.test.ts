@@ -0,0 +1,74 @@
+'use strict';
+
+import * as assert from 'assert';
+import { matchLanguage, resolveDocumentLanguage, maskLanguageDirectives } from '../src/core/LanguageResolver';
+
+const AVAILABLE = ['en_US', 'en_GB-ize', 'en_GB-ise', 'es_ANY', 'fr', 'sv_SE'];
+
+suite('LanguageResolver', () => {
+	suite('matchLanguage', () => {
+		test('matches exact names regardless of case and separator', () => {
+			assert.equal(matchLanguage('en-us', AVAILABLE), 'en_US');
+			assert.equal(matchLanguage('en_GB-ise', AVAILABLE), 'en_GB-ise');
+			assert.equal(matchLanguage('EN-gb-ISE', AVAILABLE), 'en_GB-ise');
+		});
+
+		test('matches a region to its first variant', () => {
+			assert.equal(matchLanguage('en-GB', AVAILABLE), 'en_GB-ize');
+		});
+
+		test('matches by the base language', () => {
+			assert.equal(matchLanguage('fr-FR', AVAILABLE), 'fr');
+			assert.equal(matchLanguage('es', AVAILABLE), 'es_ANY');
+			assert.equal(matchLanguage('sv', AVAILABLE), 'sv_SE');
+		});
+
+		test('returns null without a dictionary', () => {
+			assert.equal(matchLanguage('de-DE', AVAILABLE), null);
+		});
+	});
+
+	suite('resolveDocumentLanguage', () => {
+		test('reads an inline directive with several languages', () => {
+			let text = 'Text\n<!-- spellchecker-language: en-GB, es, de -->\n';
+
+			assert.deepEqual(resolveDocumentLanguage(text, AVAILABLE), { languages: ['en_GB-ize', 'es_ANY'], source: 'directive' });
+		});
+
+		test('reads the TeX magic comment', () => {
+			assert.deepEqual(resolveDocumentLanguage('% !TeX spellcheck = fr_FR\n\\section{Bonjour}', AVAILABLE), { languages: ['fr'], source: 'directive' });
+		});
+
+		test('reads the lang of the front matter', () => {
+			let text = '---\ntitle: Hej\nlang: "sv-SE"\n---\nText';
+
+			assert.deepEqual(resolveDocumentLanguage(text, AVAILABLE), { languages: ['sv_SE'], source: 'frontMatter' });
+		});
+
+		test('prefers a directive to the front matter', () => {
+			let text = '---\nlang: sv\n---\n<!-- spellchecker-language: fr -->';
+
+			assert.deepEqual(resolveDocumentLanguage(text, AVAILABLE).languages, ['fr']);
+		});
+
+		test('falls back to the front matter when the directive names no dictionary', () => {
+			let text = '---\nlang: sv\n---\n<!-- spellchecker-language: de -->';
+
+			assert.deepEqual(resolveDocumentLanguage(text, AVAILABLE), { languages: ['sv_SE'], source: 'frontMatter' });
+		});
+
+		test('returns null when the document chooses no language', () => {
+			assert.equal(resolveDocumentLanguage('Just text\nlang: fr', AVAILABLE), null);
+		});
+	});
+
+	suite('maskLanguageDirectives', () => {
+		test('blanks out directives, keeping offsets', () => {
+			let text = 'One <!-- spellchecker-language: fr --> two\n% !TeX spellcheck = en_GB\nthree';
+			let masked = maskLanguageDirectives(text);
+
+			assert.equal(masked.length, text.length);
+			assert.deepEqual(masked.split(/\s+/).filter(word => word.length > 0), ['One', '<!--', '-->', 'two', 'three']);
+		});
+	});
+});
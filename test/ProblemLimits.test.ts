@@ -0,0 +1,62 @@
+'use strict';
+
+import * as assert from 'assert';
+import { NO_LIMITS, limitErrors, getCollapsedCounts, describeError, describeHidden } from '../src/core/ProblemLimits';
+
+function errors(words: string[]): { word: string, index: number }[] {
+	return words.map((word, index) => ({ word: word, index: index }));
+}
+
+suite('limitErrors', () => {
+	test('shows every error without limits', () => {
+		let limited = limitErrors(errors(['a', 'a', 'b']), NO_LIMITS);
+
+		assert.equal(limited.shown.length, 3);
+		assert.equal(limited.hidden, 0);
+	});
+
+	test('collapses the duplicates of a word', () => {
+		let limited = limitErrors(errors(['a', 'b', 'a', 'a', 'a']), { maxProblems: 0, maxDuplicateProblems: 2 });
+
+		assert.deepEqual(limited.shown.map(error => error.index), [0, 1, 2]);
+		assert.equal(limited.hidden, 2);
+		assert.deepEqual(Array.from(limited.collapsed.entries()), [['a', 2]]);
+	});
+
+	test('limits the errors of a file', () => {
+		let limited = limitErrors(errors(['a', 'b', 'c', 'd']), { maxProblems: 2, maxDuplicateProblems: 0 });
+
+		assert.deepEqual(limited.shown.map(error => error.word), ['a', 'b']);
+		assert.equal(limited.hidden, 2);
+	});
+
+	test('mentions collapsed duplicates only for words with a shown error', () => {
+		let limited = limitErrors(errors(['a', 'a', 'a', 'b', 'b', 'b', 'hasOwnProperty', 'hasOwnProperty']), { maxProblems: 2, maxDuplicateProblems: 1 });
+
+		assert.deepEqual(limited.shown.map(error => error.word), ['a', 'b']);
+		assert.equal(limited.hidden, 6);
+		assert.deepEqual(Array.from(limited.collapsed.entries()), [['a', 2], ['b', 2]]);
+	});
+});
+
+suite('getCollapsedCounts', () => {
+	test('mentions the collapsed duplicates in the last shown occurrence', () => {
+		let limited = limitErrors(errors(['a', 'b', 'a', 'a', 'a', 'b']), { maxProblems: 0, maxDuplicateProblems: 2 });
+
+		assert.deepEqual(getCollapsedCounts(limited), [0, 0, 2, 0]);
+	});
+});
+
+suite('describeError', () => {
+	test('mentions collapsed duplicates', () => {
+		assert.equal(describeError('helo', 0), 'Spelling [ helo ]: unknown word');
+		assert.equal(describeError('helo', 3), 'Spelling [ helo ]: unknown word (3 more not shown)');
+	});
+});
+
+suite('describeHidden', () => {
+	test('names the file if there is one', () => {
+		assert.equal(describeHidden(2, 5), '2 of 5 spelling errors are not shown because of the \'spellchecker.maxProblems\' and \'spellchecker.maxDuplicateProblems\' settings');
+		assert.equal(describeHidden(2, 5, 'README.md').indexOf('2 of 5 spelling errors in README.md are not shown'), 0);
+	});
+});
@@ -0,0 +1,79 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ProjectDictionary from '../src/core/ProjectDictionary';
+
+suite('ProjectDictionary', () => {
+	let folder: string;
+	let filename: string;
+
+	setup(() => {
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'spellchecker-'));
+		filename = path.join(folder, '.vscode', 'spellchecker.dic');
+	});
+
+	teardown(() => {
+		if (fs.existsSync(filename)) {
+			fs.unlinkSync(filename);
+		}
+		if (fs.existsSync(path.dirname(filename))) {
+			fs.rmdirSync(path.dirname(filename));
+		}
+		fs.rmdirSync(folder);
+	});
+
+	test('parses words without comments, blank lines and duplicates', () => {
+		assert.deepEqual(ProjectDictionary.parseWords('# Names\nalpha\n\n  beta \nalpha\r\n#gamma\n'), ['alpha', 'beta']);
+	});
+
+	test('creates the file when adding to a missing dictionary', () => {
+		let dictionary = new ProjectDictionary(filename);
+
+		assert.equal(dictionary.add('kubectl'), true);
+		assert.equal(dictionary.add('kubectl'), false);
+		assert.equal(fs.readFileSync(filename, 'utf-8'), 'kubectl\n');
+	});
+
+	test('keeps comments when adding and removing words', () => {
+		fs.mkdirSync(path.dirname(filename));
+		fs.writeFileSync(filename, '# Product names\nbravo\ndelta\n\n# People\nmike\n');
+		let dictionary = new ProjectDictionary(filename);
+
+		assert.equal(dictionary.addWords(['charlie', 'alpha', 'zulu', 'charlie']), 3);
+		assert.equal(fs.readFileSync(filename, 'utf-8'), '# Product names\nalpha\nbravo\ncharlie\ndelta\n\n# People\nmike\nzulu\n');
+
+		assert.equal(dictionary.removeWords(['bravo', 'mike', 'xray']), 2);
+		assert.equal(fs.readFileSync(filename, 'utf-8'), '# Product names\nalpha\ncharlie\ndelta\n\n# People\nzulu\n');
+		assert.deepEqual(dictionary.getWords(), ['alpha', 'charlie', 'delta', 'zulu']);
+	});
+
+	test('keeps Windows line endings', () => {
+		fs.mkdirSync(path.dirname(filename));
+		fs.writeFileSync(filename, '# Words\r\nbravo\r\n');
+		let dictionary = new ProjectDictionary(filename);
+
+		dictionary.add('alpha');
+		assert.equal(fs.readFileSync(filename, 'utf-8'), '# Words\r\nalpha\r\nbravo\r\n');
+	});
+
+	test('reports a file that cannot be read instead of throwing', () => {
+		// A folder in place of the file can't be read
+		fs.mkdirSync(path.dirname(filename));
+		fs.mkdirSync(filename);
+		let dictionary: ProjectDictionary;
+		try {
+			dictionary = new ProjectDictionary(filename);
+
+			assert.ok(dictionary.loadError.indexOf(filename) >= 0);
+			assert.deepEqual(dictionary.getWords(), []);
+			assert.throws(() => dictionary.add('alpha'));
+			assert.deepEqual(dictionary.getWords(), []);
+		}
+		finally {
+			fs.rmdirSync(filename);
+		}
+	});
+});
@@ -0,0 +1,37 @@
+'use strict';
+
+import * as assert from 'assert';
+import { getDefaultSettings, applySettings, getSeverityName } from '../src/core/Settings';
+
+suite('applySettings', () => {
+	test('accepts keys with and without the prefix', () => {
+		let settings = applySettings(getDefaultSettings(), { 'spellchecker.language': 'fr', checkInterval: -1 });
+
+		assert.equal(settings.language, 'fr');
+		assert.equal(settings.checkInterval, -1);
+	});
+
+	test('keeps false and 0', () => {
+		let settings = applySettings(getDefaultSettings(), { useGitignore: false, maxProblems: 0, language: '' });
+
+		assert.equal(settings.useGitignore, false);
+		assert.equal(settings.maxProblems, 0);
+		assert.equal(settings.language, 'en_US');
+	});
+});
+
+suite('getSeverityName', () => {
+	test('names the severity of the settings', () => {
+		let settings = getDefaultSettings();
+		settings.suggestionSeverity = 'Hint';
+
+		assert.equal(getSeverityName(settings), 'Hint');
+	});
+
+	test('treats unknown values as warnings', () => {
+		let settings = getDefaultSettings();
+		settings.suggestionSeverity = 'error';
+
+		assert.equal(getSeverityName(settings), 'Warning');
+	});
+});
@@ -0,0 +1,162 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDefaultSettings } from '../src/core/Settings';
+import { readLegacySettings, parseLegacySettings, mergeLegacyValue, planMigration, describeMigration, formatMigrationDiff } from '../src/core/SettingsMigration';
+
+// A legacy file as written by hand, with comments and trailing commas
+const LEGACY_FILE = [
+	'// Spell checker settings',
+	'{',
+	'\t"language": "fr", // the default',
+	'\t/* Words of the project */',
+	'\t"ignoreWordsList": [',
+	'\t\t"Kubernetes",',
+	'\t\t"kubectl",',
+	'\t],',
+	'\t"spellchecker.ignoreRegExp": ["/[,]/g", "/https?:\\\\/\\\\/\\\\S*/g",],',
+	'\t"documentTypes": ["restructuredtext"],',
+	'\t"colour": "blue",',
+	'}'
+].join('\n');
+
+suite('SettingsMigration', () => {
+	suite('readLegacySettings', () => {
+		let filename: string;
+
+		setup(() => {
+			filename = path.join(os.tmpdir(), 'spellchecker-test-' + String(process.pid) + '.json');
+		});
+
+		teardown(() => {
+			if (fs.existsSync(filename)) {
+				fs.unlinkSync(filename);
+			}
+		});
+
+		test('reads comments, trailing commas and prefixed keys', () => {
+			fs.writeFileSync(filename, LEGACY_FILE, 'utf-8');
+
+			let legacy = readLegacySettings(filename);
+
+			assert.deepEqual(legacy.settings, {
+				language: 'fr',
+				ignoreWordsList: ['Kubernetes', 'kubectl'],
+				ignoreRegExp: ['/[,]/g', '/https?:\\/\\/\\S*/g'],
+				documentTypes: ['restructuredtext']
+			});
+			assert.deepEqual(legacy.unknown, ['colour']);
+		});
+
+		test('keeps comment markers and commas inside strings', () => {
+			let legacy = parseLegacySettings('{ "ignoreRegExp": ["//,]", "/*x*/", "\\",]"], }');
+
+			assert.deepEqual(legacy.settings.ignoreRegExp, ['//,]', '/*x*/', '",]']);
+		});
+
+		test('rejects files that aren\'t a JSON object', () => {
+			fs.writeFileSync(filename, '["Kubernetes"]', 'utf-8');
+			assert.throws(() => readLegacySettings(filename), /doesn't contain a JSON object/);
+
+			fs.writeFileSync(filename, '{ "language": ', 'utf-8');
+			assert.throws(() => readLegacySettings(filename));
+		});
+
+		test('skips null values', () => {
+			let legacy = parseLegacySettings('{ "language": null }');
+
+			assert.deepEqual(legacy.settings, {});
+			assert.deepEqual(legacy.unknown, ['language']);
+		});
+	});
+
+	suite('mergeLegacyValue', () => {
+		test('puts new legacy entries before the current ones', () => {
+			assert.deepEqual(mergeLegacyValue(['b', 'c', 'c'], ['a', 'b']), ['c', 'a', 'b']);
+			assert.deepEqual(mergeLegacyValue(['a'], undefined), ['a']);
+		});
+
+		test('replaces other values', () => {
+			assert.equal(mergeLegacyValue('fr', 'en_US'), 'fr');
+			assert.equal(mergeLegacyValue(false, true), false);
+		});
+	});
+
+	suite('planMigration', () => {
+		test('merges lists with the settings that apply, including defaults', () => {
+			let legacy = parseLegacySettings(LEGACY_FILE);
+			let effective = getDefaultSettings();
+			effective.ignoreWordsList = ['kubectl', 'Helm'];
+
+			let plan = planMigration(legacy, { ignoreWordsList: ['kubectl', 'Helm'] }, effective);
+			let changes = {};
+			plan.changes.forEach(change => changes[change.key] = change);
+
+			assert.deepEqual(Object.keys(changes).sort(), ['documentTypes', 'ignoreRegExp', 'ignoreWordsList', 'language']);
+			assert.deepEqual(changes['documentTypes'].migrated, ['restructuredtext', 'markdown', 'latex', 'plaintext']);
+			assert.equal(changes['documentTypes'].current, undefined);
+			assert.deepEqual(changes['ignoreWordsList'].migrated, ['Kubernetes', 'kubectl', 'Helm']);
+			assert.deepEqual(changes['ignoreWordsList'].current, ['kubectl', 'Helm']);
+			assert.equal(changes['language'].migrated, 'fr');
+			assert.deepEqual(plan.unknown, ['colour']);
+		});
+
+		test('leaves out settings that wouldn\'t change', () => {
+			let legacy = parseLegacySettings('{ "language": "en_US", "ignoreWordsList": ["kubectl"], "useGitignore": true }');
+			let effective = getDefaultSettings();
+			effective.ignoreWordsList = ['kubectl'];
+
+			let plan = planMigration(legacy, {}, effective);
+
+			assert.deepEqual(plan.changes, []);
+		});
+	});
+
+	suite('describeMigration', () => {
+		test('describes each change', () => {
+			let lines = describeMigration({
+				changes: [
+					{ key: 'ignoreWordsList', current: ['kubectl'], migrated: ['Kubernetes', 'kubectl'] },
+					{ key: 'language', current: 'en_US', migrated: 'fr' },
+					{ key: 'documentTypes', current: undefined, migrated: ['restructuredtext', 'markdown'] }
+				],
+				unknown: ['colour']
+			});
+
+			assert.deepEqual(lines, [
+				'spellchecker.ignoreWordsList: add "Kubernetes"',
+				'spellchecker.language: change "en_US" to "fr"',
+				'spellchecker.documentTypes: set to ["restructuredtext","markdown"]',
+				'colour: not a spellchecker setting, skipped'
+			]);
+		});
+
+		test('says when nothing would change', () => {
+			assert.deepEqual(describeMigration({ changes: [], unknown: [] }), ['No settings would change']);
+		});
+	});
+
+	suite('formatMigrationDiff', () => {
+		test('removes the current values and adds the migrated ones', () => {
+			let diff = formatMigrationDiff({
+				changes: [
+					{ key: 'language', current: 'en_US', migrated: 'fr' },
+					{ key: 'ignoreWordsList', current: undefined, migrated: ['Kubernetes'] }
+				],
+				unknown: []
+			}, 'app/.vscode/settings.json');
+
+			assert.equal(diff, [
+				'--- app/.vscode/settings.json',
+				'+++ app/.vscode/settings.json (migrated)',
+				'-"spellchecker.language": "en_US",',
+				'+"spellchecker.language": "fr",',
+				'+"spellchecker.ignoreWordsList": ["Kubernetes"],',
+				''
+			].join('\n'));
+		});
+	});
+});
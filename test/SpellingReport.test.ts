@@ -0,0 +1,35 @@
+'use strict';
+
+import * as assert from 'assert';
+import SpellingReport from '../src/core/SpellingReport';
+
+suite('SpellingReport', () => {
+	test('counts words in each file', () => {
+		let report = new SpellingReport();
+		report.add('a.md', ['wrod', 'wrod', 'teh']);
+		report.add('b.md', ['wrod']);
+
+		assert.equal(report.fileCount, 2);
+		assert.equal(report.errorCount, 4);
+		assert.deepEqual(report.getWords(), ['wrod', 'teh']);
+		assert.equal(report.getCount('wrod'), 3);
+	});
+
+	test('lists the files of each word in order', () => {
+		let report = new SpellingReport();
+		report.add('b.md', ['teh', 'constructor']);
+		report.add('a.md', ['teh']);
+
+		assert.deepEqual(report.getFiles('teh'), ['a.md', 'b.md']);
+		assert.deepEqual(report.getFiles('wrod'), []);
+		assert.deepEqual(report.toJSON(), {
+			files: 2,
+			errors: 3,
+			words: [
+				{ word: 'teh', count: 2, files: [{ file: 'a.md', count: 1 }, { file: 'b.md', count: 1 }] },
+				{ word: 'constructor', count: 1, files: [{ file: 'b.md', count: 1 }] }
+			]
+		});
+		assert.equal(report.toMarkdown().split('\n')[6], '| teh | 2 | `a.md` (1), `b.md` (1) |');
+	});
+});
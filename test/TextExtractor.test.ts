@@ -0,0 +1,96 @@
+'use strict';
+
+import * as assert from 'assert';
+import { WordToken, mask, tokenize, splitIdentifiers } from '../src/core/extractors/TextExtractor';
+import MarkdownExtractor from '../src/core/extractors/MarkdownExtractor';
+import LatexExtractor from '../src/core/extractors/LatexExtractor';
+
+// Every token must point at its own word in the original text
+function assertOffsets(text: string, tokens: WordToken[]): void {
+	for (let token of tokens) {
+		assert.equal(text.substr(token.offset, token.word.length), token.word);
+	}
+}
+
+suite('TextExtractor', () => {
+	suite('mask', () => {
+		test('keeps the length and line breaks of the text', () => {
+			let text = 'keep `code\r\nspan` keep';
+			let masked = mask(text, /`[^`]+`/g);
+
+			assert.equal(masked.length, text.length);
+			assert.equal(masked, 'keep      \r\n      keep');
+		});
+	});
+
+	suite('tokenize', () => {
+		test('finds words with their offsets', () => {
+			let text = 'Hello, world! (again)';
+
+			assert.deepEqual(tokenize(text), [
+				{ word: 'Hello', offset: 0 },
+				{ word: 'world', offset: 7 },
+				{ word: 'again', offset: 15 }
+			]);
+		});
+
+		test('strips quotes and leading numbers without moving the words', () => {
+			let text = '‘quoted’ \'single\' 3rd it’s';
+			let tokens = tokenize(text);
+
+			assert.deepEqual(tokens.map(token => token.word), ['quoted', 'single', 'rd', 'it’s']);
+			assertOffsets(text, tokens);
+		});
+
+		test('keeps offsets after multi-byte text', () => {
+			let text = 'Ünïcödé 😀 naïve 日本語 café';
+			let tokens = tokenize(text);
+
+			assert.deepEqual(tokens.map(token => token.word), ['Ünïcödé', '😀', 'naïve', '日本語', 'café']);
+			assert.equal(tokens[4].offset, text.length - 4);
+			assertOffsets(text, tokens);
+		});
+	});
+
+	suite('splitIdentifiers', () => {
+		test('splits camelCase and acronyms at their offsets', () => {
+			let text = 'call getUserName on HTTPServer';
+			let tokens = splitIdentifiers(tokenize(text));
+
+			assert.deepEqual(tokens.map(token => token.word), ['call', 'get', 'User', 'Name', 'on', 'HTTP', 'Server']);
+			assertOffsets(text, tokens);
+		});
+
+		test('leaves ordinary words alone', () => {
+			assert.deepEqual(splitIdentifiers([{ word: 'Paris', offset: 4 }, { word: 'NASA', offset: 10 }]), [{ word: 'Paris', offset: 4 }, { word: 'NASA', offset: 10 }]);
+		});
+	});
+
+	suite('MarkdownExtractor', () => {
+		test('skips code spans and blocks but keeps the offsets of the prose', () => {
+			let text = 'Run `npm instal` first.\n\n```\nconst wrod = 1;\n```\nThen teh rest 😀 ‘here’.';
+			let tokens = new MarkdownExtractor().extract(text);
+
+			assert.deepEqual(tokens.map(token => token.word), ['Run', 'first', 'Then', 'teh', 'rest', '😀', 'here']);
+			assertOffsets(text, tokens);
+		});
+
+		test('skips front matter, links and email addresses', () => {
+			let text = '---\ntitle: Draftt\n---\nSee https://exampel.com or mail someone@exampel.com now';
+			let tokens = new MarkdownExtractor().extract(text);
+
+			assert.deepEqual(tokens.map(token => token.word), ['See', 'or', 'mail', 'now']);
+			assertOffsets(text, tokens);
+		});
+	});
+
+	suite('LatexExtractor', () => {
+		test('skips commands, math and comments', () => {
+			let text = 'A \\textbf{bold} claim $x = yy$ holds % not chekced\nAnd 50\\% more';
+			let tokens = new LatexExtractor().extract(text);
+
+			assert.deepEqual(tokens.map(token => token.word), ['A', 'claim', 'holds', 'And', 'more']);
+			assertOffsets(text, tokens);
+		});
+	});
+});
@@ -0,0 +1,56 @@
+'use strict';
+
+import * as assert from 'assert';
+import { FileError, formatText, formatJSON, formatSARIF } from '../src/cli/formatters';
+
+const ERRORS: FileError[] = [
+	{ file: 'docs\\guide.md', line: 3, column: 5, word: 'wrod', suggestions: ['word', 'wrods'] },
+	{ file: 'README.md', line: 10, column: 1, word: 'Qwzx', suggestions: [] }
+];
+
+suite('formatters', () => {
+	test('writes one line per error', () => {
+		assert.equal(formatText(ERRORS), 'docs\\guide.md:3:5 wrod (word, wrods)\nREADME.md:10:1 Qwzx\n');
+		assert.equal(formatText([]), '');
+	});
+
+	test('writes the errors as JSON', () => {
+		assert.deepEqual(JSON.parse(formatJSON(ERRORS)), ERRORS);
+	});
+
+	test('writes a SARIF 2.1.0 log', () => {
+		let sarif = JSON.parse(formatSARIF(ERRORS, 'Information', '1.4.0'));
+
+		assert.equal(sarif.version, '2.1.0');
+		assert.equal(sarif.runs.length, 1);
+
+		let run = sarif.runs[0];
+		assert.equal(run.tool.driver.name, 'spellchecker');
+		assert.equal(run.tool.driver.version, '1.4.0');
+		assert.deepEqual(run.tool.driver.rules.map(rule => rule.id), ['unknown-word']);
+
+		assert.deepEqual(run.results[0], {
+			ruleId: 'unknown-word',
+			level: 'note',
+			message: { text: 'Spelling [ wrod ]: unknown word. Suggestions: word, wrods' },
+			locations: [
+				{
+					physicalLocation: {
+						artifactLocation: { uri: 'docs/guide.md' },
+						region: { startLine: 3, startColumn: 5, endColumn: 9 }
+					}
+				}
+			]
+		});
+		assert.equal(run.results[1].message.text, 'Spelling [ Qwzx ]: unknown word');
+	});
+
+	test('maps the severity to a SARIF level', () => {
+		let level = (severity: string) => JSON.parse(formatSARIF(ERRORS, severity, '1.4.0')).runs[0].results[0].level;
+
+		assert.equal(level('Error'), 'error');
+		assert.equal(level('Warning'), 'warning');
+		assert.equal(level('Hint'), 'note');
+		assert.equal(level('Unknown'), 'warning');
+	});
+});